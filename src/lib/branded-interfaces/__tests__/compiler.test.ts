@@ -0,0 +1,391 @@
+import * as fc from 'fast-check';
+import { compileSchema, CompiledSchemaOptions, SchemaValidationOptions } from '../compiler.js';
+import { createBrandedInterface, createBrandedPrimitive } from '../factory.js';
+import { safeParseInterface } from '../guards.js';
+import { createOpaqueType } from '../opaque.js';
+import { getInterfaceRegistry, resetInterfaceRegistry } from '../registry.js';
+import {
+  INTERFACE_REGISTRY_KEY,
+  InterfaceRegistryEntry,
+  InterfaceSchema,
+  InterfaceRefinement,
+} from '../types.js';
+import { createBrandedEnum } from '../../factory.js';
+import { resetRegistry } from '../../registry.js';
+import { REGISTRY_KEY } from '../../types.js';
+import { arbUniqueId, arbInterfaceSchema } from './arbitraries.js';
+
+beforeEach(() => {
+  resetInterfaceRegistry();
+  resetRegistry();
+});
+
+const runModes: SchemaValidationOptions[] = [
+  {},
+  { collectAll: true },
+  { coerce: true },
+  { collectAll: true, coerce: true, autoBrand: true },
+  { autoBrand: true, transform: false },
+];
+
+/**
+ * Without async validators, an async run must give the result of a sync run.
+ */
+async function expectSameAsyncResults(
+  schema: InterfaceSchema,
+  interfaceId: string,
+  inputs: unknown[],
+  interfaceOptions: CompiledSchemaOptions = {}
+): Promise<void> {
+  const compiled = compileSchema(schema, interfaceId, interfaceOptions);
+  for (const input of inputs) {
+    for (const mode of runModes) {
+      expect(await compiled.validateAsync(input, mode)).toEqual(compiled.validate(input, mode));
+    }
+  }
+}
+
+function setupRefs() {
+  createBrandedEnum('CompStatus', { Active: 'active', Archived: 'archived' } as const);
+  createBrandedPrimitive('CompEmail', 'string', (v) => v.includes('@'));
+  createOpaqueType<string>('CompToken', 'string');
+  const noDuplicateCity: InterfaceRefinement = function noDuplicateCity(data, ctx) {
+    if (data.city === data.street) {
+      ctx.addIssue({ path: ['city'], message: 'city repeats street' });
+    }
+  };
+  return createBrandedInterface(
+    'CompAddress',
+    {
+      street: { type: 'string', minLength: 1 },
+      city: { type: 'string' },
+      next: { type: 'branded-interface', ref: 'self', optional: true },
+    },
+    { refinements: [noDuplicateCity], unknownKeys: 'strict' }
+  );
+}
+
+const patientSchema: InterfaceSchema = {
+  name: { type: 'string', minLength: 2, maxLength: 8, pattern: '^[A-Z]' },
+  age: { type: 'number', min: 0, max: 150, integer: true, nullable: true },
+  active: { type: 'boolean', default: true },
+  born: { type: 'date', optional: true },
+  scan: { type: 'bytes', optional: true },
+  big: { type: 'bigint', optional: true },
+  status: { type: 'branded-enum', ref: 'CompStatus' },
+  email: { type: 'branded-primitive', ref: 'CompEmail', optional: true },
+  token: { type: 'branded-opaque', ref: 'CompToken', optional: true },
+  address: { type: 'branded-interface', ref: 'CompAddress', optional: true },
+  tags: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 3, uniqueItems: true },
+  pair: { type: 'tuple', elements: [{ type: 'number' }, { type: 'string', optional: true }] },
+  scores: { type: 'record', keys: { ref: 'CompStatus' }, values: { type: 'number' }, optional: true },
+  labels: { type: 'record', keys: { pattern: '^[a-z]+$' }, optional: true },
+  meta: {
+    type: 'object',
+    strict: true,
+    optional: true,
+    properties: { source: { type: 'literal', value: 'web' } },
+  },
+  id: { type: 'union', members: [{ type: 'number', integer: true }, { type: 'string', pattern: '^#' }] },
+  even: { type: 'number', optional: true, validate: (v) => (v as number) % 2 === 0 },
+};
+
+const validPatient = {
+  name: 'Ann',
+  age: 30,
+  status: 'active',
+  tags: ['a', 'b'],
+  pair: [1],
+  id: 7,
+};
+
+const patientInputs: unknown[] = [
+  validPatient,
+  { ...validPatient, active: false, born: new Date(0), scan: new Uint8Array([1]), big: 1n },
+  { ...validPatient, age: null, even: 4, meta: { source: 'web' }, labels: { ok: 1 } },
+  { ...validPatient, scores: { active: 1, archived: 2 }, id: '#7' },
+  { ...validPatient, address: { street: 'Main', city: 'Town' } },
+  { ...validPatient, address: { street: 'Main', city: 'Town', next: { street: 'A', city: 'B' } } },
+  {},
+  { name: 'a', age: -1.5, status: 'ACTIVE', tags: ['', 'x', 'x', 'y'], pair: [1, 2, 3], id: 1.5 },
+  { ...validPatient, age: '42', active: 'yes', tags: 'a, b', pair: 'x', id: '12' },
+  { ...validPatient, born: new Date('nope'), scan: [1], big: 1, email: 'nope', token: 'x' },
+  { ...validPatient, scores: { active: 'x', deleted: 1 }, labels: { Bad: 1, ok: 2 } },
+  { ...validPatient, meta: { source: 'app', extra: 1 }, even: 3, id: 'x' },
+  { ...validPatient, address: { street: 'Same', city: 'Same', zip: 1 } },
+  { ...validPatient, address: { street: '', city: 2, next: 'nope' } },
+  { ...validPatient, name: null, status: undefined, tags: null },
+  { ...validPatient, age: '', status: 'archived ', scores: '{"active": 1}' },
+  'not an object',
+  null,
+  [1, 2],
+];
+
+describe('compileSchema — whole objects', () => {
+  it('reports every issue in collect-all mode and the first one otherwise', () => {
+    setupRefs();
+    const compiled = compileSchema(patientSchema, 'CompPatient');
+    const input = { ...validPatient, name: 'a', age: -1.5, tags: ['', 'x', 'x'] };
+
+    const all = compiled.validate(input, { collectAll: true });
+    const first = compiled.validate(input);
+
+    expect(!all.success && all.issues.map((issue) => issue.code)).toEqual([
+      'too_small',
+      'pattern_mismatch',
+      'too_small',
+      'not_integer',
+      'too_small',
+    ]);
+    expect(!first.success && first.issues).toEqual(!all.success && all.issues.slice(0, 1));
+  });
+
+  it('returns the input itself unless a field was transformed', () => {
+    setupRefs();
+    const compiled = compileSchema(patientSchema, 'CompPatient');
+    const input = { ...validPatient, active: true };
+
+    const same = compiled.validate(input);
+    const defaulted = compiled.validate(validPatient);
+
+    expect(same.success && same.value).toBe(input);
+    expect(defaulted.success && defaulted.value).toEqual({ ...validPatient, active: true });
+    expect(validPatient).not.toHaveProperty('active');
+  });
+
+  it('resolves refs registered after the schema was compiled', () => {
+    const schema: InterfaceSchema = { status: { type: 'branded-enum', ref: 'CompLate' } };
+    const compiled = compileSchema(schema, 'CompLateHolder');
+
+    const before = compiled.validate({ status: 'on' });
+    expect(before.success).toBe(false);
+    expect(!before.success && before.issues[0].code).toBe('ref_missing');
+
+    createBrandedEnum('CompLate', { On: 'on' } as const);
+    expect(compiled.validate({ status: 'on' })).toEqual({ success: true, value: { status: 'on' } });
+
+    resetRegistry();
+    const after = compiled.validate({ status: 'on' });
+    expect(!after.success && after.issues[0].code).toBe('ref_missing');
+  });
+  it('re-resolves refs against registries without a revision', () => {
+    const globals = globalThis as Record<string, unknown>;
+    const saved = [globals[INTERFACE_REGISTRY_KEY], globals[REGISTRY_KEY]];
+    // Registries as an older copy of the library creates them
+    const entries = new Map<string, InterfaceRegistryEntry>();
+    globals[INTERFACE_REGISTRY_KEY] = { entries };
+    globals[REGISTRY_KEY] = { enums: new Map(), valueIndex: new Map() };
+    try {
+      createBrandedInterface('CompForeignChild', { name: { type: 'string' } });
+      const child = entries.get('CompForeignChild') as InterfaceRegistryEntry;
+      const compiled = compileSchema(
+        { child: { type: 'branded-interface', ref: 'CompForeignChild' } },
+        'CompForeignHolder'
+      );
+      const input = { child: { name: 'a' } };
+
+      // The older copy changes entries without counting revisions
+      entries.clear();
+      expect(compiled.validate(input, { autoBrand: true }).success).toBe(false);
+      entries.set('CompForeignChild', child);
+      expect(compiled.validate(input, { autoBrand: true }).success).toBe(true);
+      expect(getInterfaceRegistry().revision).toBeUndefined();
+    } finally {
+      [globals[INTERFACE_REGISTRY_KEY], globals[REGISTRY_KEY]] = saved;
+    }
+  });
+
+  it('returns failures instead of throwing them', () => {
+    const compiled = compileSchema({ name: { type: 'string' } }, 'CompNoThrow');
+
+    const result = compiled.validate({ name: 1 }, { collectAll: true });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues.map((issue) => issue.code)).toEqual(['type_mismatch']);
+  });
+
+  it('throws for misconfigured schemas', () => {
+    const schema: InterfaceSchema = {
+      slow: { type: 'string', validate: () => Promise.resolve(true) as unknown as boolean },
+    };
+
+    expect(() => compileSchema(schema, 'CompPromise').validate({ slow: 'x' })).toThrow(
+      'Field "slow" validate() returned a Promise in interface "CompPromise"; use validateAsync for async checks'
+    );
+  });
+});
+
+describe('compileSchema — async runs', () => {
+  it('matches sync runs when the schema has no async validators', async () => {
+    setupRefs();
+    const ordered: InterfaceRefinement = (data) => (data.a as number) <= (data.b as number);
+
+    await expectSameAsyncResults(patientSchema, 'CompPatient', patientInputs);
+    await expectSameAsyncResults(patientSchema, 'CompPatient', patientInputs, {
+      unknownKeys: 'strict',
+    });
+    await expectSameAsyncResults(
+      { a: { type: 'number' }, b: { type: 'number' } },
+      'CompOrdered',
+      [{ a: 1, b: 2 }, { a: 3, b: 2 }, { a: 'x', b: 2 }],
+      { refinements: [ordered] }
+    );
+  });
+
+  it('matches sync runs on generated schemas and arbitrary data', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        arbUniqueId,
+        arbInterfaceSchema.chain((schema) =>
+          fc.tuple(
+            fc.constant(schema),
+            fc.dictionary(
+              fc.constantFrom(...Object.keys(schema), 'extra'),
+              fc.oneof(fc.anything(), fc.constant(''), fc.constant('12'), fc.constant(null))
+            )
+          )
+        ),
+        async (id, [schema, data]) => {
+          await expectSameAsyncResults(schema, id, [data]);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('reports failed async checks after the synchronous pass', async () => {
+    const compiled = compileSchema(
+      {
+        a: { type: 'string', validateAsync: async () => false },
+        b: { type: 'string', validateAsync: async () => false },
+      },
+      'CompAsync'
+    );
+
+    const first = await compiled.validateAsync({ a: 'x', b: 'y' });
+    const all = await compiled.validateAsync({ a: 'x', b: 'y' }, { collectAll: true });
+
+    expect(!first.success && first.issues.map((issue) => issue.path)).toEqual([['a']]);
+    expect(!all.success && all.issues.map((issue) => issue.path)).toEqual([['a'], ['b']]);
+    expect(() => compiled.validate({ a: 'x', b: 'y' })).toThrow(
+      'Interface "CompAsync" declares async validators; use createAsync() or validateAsync()'
+    );
+  });
+
+  it('discards async checks deferred by failed union attempts', async () => {
+    let calls = 0;
+    const compiled = compileSchema(
+      {
+        value: {
+          type: 'union',
+          members: [
+            {
+              type: 'object',
+              properties: {
+                a: {
+                  type: 'string',
+                  validateAsync: async () => {
+                    calls++;
+                    return false;
+                  },
+                },
+                b: { type: 'number' },
+              },
+            },
+            { type: 'object' },
+          ],
+        },
+      },
+      'CompAsyncUnion'
+    );
+
+    const result = await compiled.validateAsync({ value: { a: 'x', b: 'not a number' } });
+
+    expect(result.success).toBe(true);
+    expect(calls).toBe(0);
+  });
+});
+
+describe('compileSchema — patches', () => {
+  it('validates a patched field like the whole merged object', () => {
+    setupRefs();
+    const compiled = compileSchema(patientSchema, 'CompPatient');
+    const base = compiled.validate(validPatient);
+    if (!base.success) {
+      throw new Error('expected a valid base');
+    }
+
+    for (const input of patientInputs.filter((value) => typeof value === 'object' && value)) {
+      for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+        for (const mode of runModes) {
+          expect(compiled.validatePatch(base.value, { [key]: value }, mode)).toEqual(
+            compiled.validate({ ...base.value, [key]: value }, mode)
+          );
+        }
+      }
+    }
+  });
+
+  it('handles undeclared patch keys per unknownKeys', () => {
+    const schema: InterfaceSchema = { a: { type: 'number' } };
+    const patch = { a: 2, extra: true };
+    const modes = ['passthrough', 'strip', 'strict'] as const;
+
+    const [passthrough, strip, strict] = modes.map((unknownKeys) =>
+      compileSchema(schema, `CompPatch_${unknownKeys}`, { unknownKeys }).validatePatch({ a: 1 }, patch)
+    );
+
+    expect(passthrough).toEqual({ success: true, value: { a: 2, extra: true } });
+    expect(strip).toEqual({ success: true, value: { a: 2 } });
+    expect(!strict.success && strict.issues.map((issue) => issue.code)).toEqual(['unrecognized_key']);
+  });
+
+  it('runs refinements against the merged result', () => {
+    const ordered: InterfaceRefinement = (data) => (data.a as number) <= (data.b as number);
+    const compiled = compileSchema(
+      { a: { type: 'number' }, b: { type: 'number' } },
+      'CompPatchRefined',
+      { refinements: [ordered] }
+    );
+
+    expect(compiled.validatePatch({ a: 1, b: 2 }, { a: 2 }).success).toBe(true);
+    expect(compiled.validatePatch({ a: 1, b: 2 }, { a: 3 }).success).toBe(false);
+  });
+});
+
+describe('compiled validation through definitions', () => {
+  it('validates once per safeParseInterface() call', () => {
+    let calls = 0;
+    const Counter = createBrandedInterface('CompCounter', {
+      n: {
+        type: 'number',
+        validate: () => {
+          calls++;
+          return true;
+        },
+      },
+    });
+
+    const result = safeParseInterface({ n: 1 }, Counter);
+
+    expect(result.success).toBe(true);
+    expect(calls).toBe(1);
+  });
+
+  it('reports the same failures from create(), validate() and safeParseInterface()', () => {
+    const User = createBrandedInterface('CompUser', {
+      name: { type: 'string', minLength: 1 },
+      age: { type: 'number', integer: true },
+    });
+    const input = { name: '', age: 1.5 };
+
+    const result = safeParseInterface(input, User, { collectAllErrors: true });
+
+    expect(User.validate(input)).toBe(false);
+    expect(() => User.create(input)).toThrow('Field "name" must be at least 1 characters long');
+    expect(!result.success && result.error.issues?.map((issue) => issue.path)).toEqual([
+      ['name'],
+      ['age'],
+    ]);
+  });
+});
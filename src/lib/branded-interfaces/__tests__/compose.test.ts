@@ -6,9 +6,11 @@
  */
 
 import * as fc from 'fast-check';
-import { composeInterfaces, extendInterface } from '../compose.js';
+import { composeInterfaces, extendInterface, createInterfaceUnion } from '../compose.js';
+import { BrandedValidationError } from '../errors.js';
 import { createBrandedInterface } from '../factory.js';
 import { resetInterfaceRegistry } from '../registry.js';
+import { INTERFACE_ID, INTERFACE_UNION } from '../types.js';
 import type { InterfaceSchema, FieldDescriptor } from '../types.js';
 import { arbUniqueId, arbFieldDescriptor } from './arbitraries.js';
 
@@ -330,3 +332,111 @@ describe('extendInterface — unit tests', () => {
     expect(instance.b).toBe(42);
   });
 });
+
+// =============================================================================
+// Unit Tests for createInterfaceUnion
+// =============================================================================
+
+describe('createInterfaceUnion — unit tests', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  function definePayment() {
+    const Card = createBrandedInterface('UnionCard', {
+      method: { type: 'string' },
+      number: { type: 'string' },
+    });
+    const Bank = createBrandedInterface('UnionBank', {
+      method: { type: 'string' },
+      iban: { type: 'string' },
+    });
+    return createInterfaceUnion('UnionPayment', 'method', { card: Card, bank: Bank });
+  }
+
+  it('returns a frozen union definition that is idempotent by ID', () => {
+    const union = definePayment();
+
+    expect(union.id).toBe('UnionPayment');
+    expect(union.discriminator).toBe('method');
+    expect(Object.keys(union.members)).toEqual(['card', 'bank']);
+    expect(union[INTERFACE_UNION]).toBe('UnionPayment');
+    expect(Object.isFrozen(union)).toBe(true);
+    expect(definePayment()).toBe(union);
+  });
+
+  it('creates an instance branded with the member selected by the discriminator', () => {
+    const union = definePayment();
+
+    const card = union.create({ method: 'card', number: '4242' });
+    const bank = union.create({ method: 'bank', iban: 'DE00' });
+
+    expect(card[INTERFACE_ID]).toBe('UnionCard');
+    expect(bank[INTERFACE_ID]).toBe('UnionBank');
+    expect(union.validate({ method: 'bank', iban: 'DE00' })).toBe(true);
+    expect(union.validate({ method: 'bank', number: '4242' })).toBe(false);
+  });
+
+  it('reports member field errors against the member interface', () => {
+    const union = definePayment();
+
+    expect(() => union.create({ method: 'card', iban: 'DE00' })).toThrow(
+      /Field "number" is required but missing in interface "UnionCard"/
+    );
+  });
+
+  it('rejects unknown or missing discriminator values', () => {
+    const union = definePayment();
+
+    let error: unknown;
+    try {
+      union.create({ method: 'cash' });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(BrandedValidationError);
+    expect((error as BrandedValidationError).issues).toEqual([
+      {
+        path: ['method'],
+        code: 'invalid_discriminator',
+        expected: 'card | bank',
+        actual: 'string',
+        interfaceId: 'UnionPayment',
+        message:
+          'Field "method" must be one of "card", "bank" to select a member of union "UnionPayment"',
+      },
+    ]);
+    expect(() => union.create({} as Record<string, unknown>)).toThrow(/must be one of/);
+    expect(() => union.create('card' as never)).toThrow(/Expected a plain object/);
+    expect(union.validate({ method: 'toString' })).toBe(false);
+  });
+
+  it('supports createAsync() and validateAsync()', async () => {
+    const union = definePayment();
+
+    const bank = await union.createAsync({ method: 'bank', iban: 'DE00' });
+    expect(bank[INTERFACE_ID]).toBe('UnionBank');
+    await expect(union.validateAsync({ method: 'cash' })).resolves.toBe(false);
+  });
+
+  it('throws when a member does not declare the discriminator field', () => {
+    const Card = createBrandedInterface('UnionNoTag', { number: { type: 'string' } });
+
+    expect(() => createInterfaceUnion('UnionBad', 'method', { card: Card })).toThrow(
+      'Member "UnionNoTag" of union "UnionBad" does not declare discriminator field "method"'
+    );
+    expect(() => createInterfaceUnion('UnionEmpty', 'method', {})).toThrow(/at least one member/);
+  });
+
+  it('accepts literal discriminators matching their member key', () => {
+    const Card = createBrandedInterface('UnionLitCard', {
+      method: { type: 'literal', value: 'card' },
+    });
+
+    const union = createInterfaceUnion('UnionLit', 'method', { card: Card });
+    expect(union.validate({ method: 'card' })).toBe(true);
+    expect(() => createInterfaceUnion('UnionLitBad', 'method', { bank: Card })).toThrow(
+      /declares discriminator "method" as literal "card" but is keyed by "bank"/
+    );
+  });
+});
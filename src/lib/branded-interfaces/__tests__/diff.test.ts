@@ -372,4 +372,22 @@ describe('interfaceIntersect — unit tests', () => {
     expect(Object.keys(result.definition.schema)).toEqual([]);
     expect(result.conflicts).toEqual([]);
   });
+
+  it('compares literal values and union members when intersecting', () => {
+    const defA = createBrandedInterface('LitUnionA', {
+      kind: { type: 'literal', value: 'v2' },
+      id: { type: 'union', members: [{ type: 'string' }, { type: 'number' }] },
+      tag: { type: 'literal', value: 'x' },
+    });
+    const defB = createBrandedInterface('LitUnionB', {
+      kind: { type: 'literal', value: 'v2' },
+      id: { type: 'union', members: [{ type: 'number' }, { type: 'string' }] },
+      tag: { type: 'literal', value: 'y' },
+    });
+
+    const result = interfaceIntersect(defA, defB, 'LitUnionAB');
+
+    expect(Object.keys(result.definition.schema)).toEqual(['kind', 'id']);
+    expect(result.conflicts.map((c) => c.field)).toEqual(['tag']);
+  });
 });
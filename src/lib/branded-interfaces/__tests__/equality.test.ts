@@ -0,0 +1,135 @@
+import * as fc from 'fast-check';
+import { createBrandedInterface } from '../factory.js';
+import { interfaceEquals, interfaceHash } from '../equality.js';
+import { createOpaqueType } from '../opaque.js';
+import { resetInterfaceRegistry } from '../registry.js';
+import { arbUniqueId, arbInterfaceSchema, arbMatchingData } from './arbitraries.js';
+
+beforeEach(() => {
+  resetInterfaceRegistry();
+});
+
+function setup() {
+  createBrandedInterface('EqAddress', {
+    street: { type: 'string' },
+    zip: { type: 'string' },
+  });
+  return createBrandedInterface(
+    'EqPatient',
+    {
+      name: { type: 'string' },
+      born: { type: 'date' },
+      scan: { type: 'bytes', optional: true },
+      scores: { type: 'record', values: { type: 'number' } },
+      visits: { type: 'array', items: { type: 'branded-interface', ref: 'EqAddress' } },
+      meta: { type: 'object', optional: true },
+    },
+    { autoBrand: true, unknownKeys: 'passthrough' }
+  );
+}
+
+const patientData = () => ({
+  name: 'Ann',
+  born: new Date('1990-01-02T00:00:00Z'),
+  scan: new Uint8Array([1, 2, 3]),
+  scores: { a: 1, b: NaN },
+  visits: [{ street: 'Main St', zip: '12345' }],
+  meta: { x: 1, y: [1, 2] },
+});
+
+describe('interfaceEquals', () => {
+  it('treats separately created instances with equal values as equal', () => {
+    const Patient = setup();
+    const a = Patient.create(patientData());
+    const b = Patient.create(patientData());
+
+    expect(a).not.toBe(b);
+    expect(interfaceEquals(a, b)).toBe(true);
+    expect(interfaceHash(a)).toBe(interfaceHash(b));
+  });
+
+  it('ignores key order and undefined optional fields', () => {
+    const Patient = setup();
+    const { scan: _scan, meta: _meta, ...rest } = patientData();
+    const a = Patient.create({ ...rest, scores: { b: 2, a: 1 } });
+    const b = Patient.create({ meta: undefined, ...rest, scores: { a: 1, b: 2 } });
+
+    expect(interfaceEquals(a, b)).toBe(true);
+    expect(interfaceHash(a)).toBe(interfaceHash(b));
+  });
+
+  it('detects differences in nested values', () => {
+    const Patient = setup();
+    const base = Patient.create(patientData());
+    const variants = [
+      { born: new Date('1990-01-03T00:00:00Z') },
+      { scan: new Uint8Array([1, 2, 4]) },
+      { scores: { a: 1, b: 3 } },
+      { visits: [{ street: 'Main St', zip: '54321' }] },
+      { visits: [] },
+      { meta: { x: 1, y: [2, 1] } },
+      { extra: true },
+    ];
+
+    for (const variant of variants) {
+      const other = Patient.create({ ...patientData(), ...variant });
+      expect(interfaceEquals(base, other)).toBe(false);
+      expect(interfaceHash(base)).not.toBe(interfaceHash(other));
+    }
+  });
+
+  it('requires the same interface ID', () => {
+    const A = createBrandedInterface('EqA', { x: { type: 'number' } });
+    const B = createBrandedInterface('EqB', { x: { type: 'number' } });
+
+    expect(interfaceEquals(A.create({ x: 1 }), B.create({ x: 1 }))).toBe(false);
+    expect(interfaceHash(A.create({ x: 1 }))).not.toBe(interfaceHash(B.create({ x: 1 })));
+    expect(interfaceEquals({ x: 1 }, { x: 1 })).toBe(false);
+    expect(() => interfaceHash({ x: 1 })).toThrow(
+      'interfaceHash() expects a branded interface instance'
+    );
+  });
+
+  it('compares opaque values by identity without exposing them to the hash', () => {
+    const Secret = createOpaqueType<string>('EqSecret', 'string');
+    const Holder = createBrandedInterface('EqHolder', {
+      secret: { type: 'branded-opaque', ref: 'EqSecret' },
+    });
+    const secret = Secret.wrap('s3cret');
+    const a = Holder.create({ secret });
+    const b = Holder.create({ secret: Secret.wrap('s3cret') });
+
+    expect(interfaceEquals(a, Holder.create({ secret }))).toBe(true);
+    expect(interfaceEquals(a, b)).toBe(false);
+    expect(interfaceHash(a)).toBe(interfaceHash(b));
+  });
+
+  it('produces hashes usable as Map keys', () => {
+    const Patient = setup();
+    const cache = new Map<string, string>();
+    cache.set(interfaceHash(Patient.create(patientData())), 'cached');
+
+    expect(cache.get(interfaceHash(Patient.create(patientData())))).toBe('cached');
+    expect(interfaceHash(Patient.create(patientData()))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('equal instances of generated schemas are equal and hash equally', () => {
+    fc.assert(
+      fc.property(
+        arbUniqueId,
+        arbInterfaceSchema.chain((schema) =>
+          fc.tuple(fc.constant(schema), arbMatchingData(schema))
+        ),
+        (id, [schema, data]) => {
+          resetInterfaceRegistry();
+          const def = createBrandedInterface(id, schema);
+          const a = def.create(data);
+          const b = def.create(structuredClone(data));
+          expect(interfaceEquals(a, b)).toBe(true);
+          expect(interfaceHash(a)).toBe(interfaceHash(b));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
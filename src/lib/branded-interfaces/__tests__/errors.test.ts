@@ -0,0 +1,197 @@
+/**
+ * Unit tests for structured validation errors.
+ *
+ * Covers BrandedValidationError, issue path formatting, and the issue lists
+ * produced by create(), safeParseInterface(), the serializer, and codecs.
+ */
+
+import { BrandedValidationError, formatIssuePath, isBrandedValidationError } from '../errors.js';
+import { createBrandedInterface, createBrandedPrimitive } from '../factory.js';
+import { resetInterfaceRegistry } from '../registry.js';
+import { safeParseInterface } from '../guards.js';
+import { interfaceSerializer } from '../serializer.js';
+import { createCodec } from '../codec.js';
+import { createBrandedEnum } from '../../factory.js';
+import { resetRegistry } from '../../registry.js';
+import type { ValidationIssue } from '../types.js';
+
+function captureError(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected function to throw');
+}
+
+describe('formatIssuePath', () => {
+  it('joins field names with dots and array indices with brackets', () => {
+    expect(formatIssuePath(['name'])).toBe('name');
+    expect(formatIssuePath(['tags', 2])).toBe('tags[2]');
+    expect(formatIssuePath(['address', 'zip'])).toBe('address.zip');
+    expect(formatIssuePath(['rows', 0, 'cells', 1])).toBe('rows[0].cells[1]');
+    expect(formatIssuePath([])).toBe('');
+  });
+});
+
+describe('BrandedValidationError', () => {
+  const issue = (message: string): ValidationIssue => ({
+    path: ['x'],
+    code: 'custom',
+    message,
+    interfaceId: 'Thing',
+  });
+
+  it('uses the issue message when there is a single issue', () => {
+    const err = new BrandedValidationError('Thing', [issue('only one')]);
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toBe('BrandedValidationError');
+    expect(err.message).toBe('only one');
+    expect(err.interfaceId).toBe('Thing');
+    expect(err.issues).toHaveLength(1);
+  });
+
+  it('lists every issue when there are several', () => {
+    const err = new BrandedValidationError('Thing', [issue('first'), issue('second')]);
+    expect(err.message).toBe(
+      'Interface "Thing" failed validation with 2 errors:\n  - first\n  - second'
+    );
+  });
+
+  it('is recognized by isBrandedValidationError, including structural look-alikes', () => {
+    expect(isBrandedValidationError(new BrandedValidationError('Thing', [issue('a')]))).toBe(true);
+
+    const foreign = Object.assign(new Error('a'), {
+      name: 'BrandedValidationError',
+      interfaceId: 'Thing',
+      issues: [],
+    });
+    expect(isBrandedValidationError(foreign)).toBe(true);
+
+    expect(isBrandedValidationError(new Error('a'))).toBe(false);
+    expect(isBrandedValidationError({ issues: [] })).toBe(false);
+  });
+});
+
+describe('create() — structured issues', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+    resetRegistry();
+  });
+
+  it('throws a BrandedValidationError with path, code, and types for a type mismatch', () => {
+    const def = createBrandedInterface('IssueType', { price: { type: 'number' } });
+    const err = captureError(() => def.create({ price: 'ten' } as Record<string, unknown>));
+
+    expect(err).toBeInstanceOf(BrandedValidationError);
+    expect((err as BrandedValidationError).issues).toEqual([
+      {
+        path: ['price'],
+        code: 'type_mismatch',
+        expected: 'number',
+        actual: 'string',
+        interfaceId: 'IssueType',
+        message: 'Field "price" expected type "number" but got "string" in interface "IssueType"',
+      },
+    ]);
+  });
+
+  it('reports required, custom, enum, and ref codes with array index paths', () => {
+    createBrandedEnum('IssueColor', { Red: 'red' } as const);
+    createBrandedPrimitive<string>('IssueCode', 'string', (v) => v.length === 3);
+    const def = createBrandedInterface(
+      'IssueMixed',
+      {
+        name: { type: 'string' },
+        score: { type: 'number', validate: (v) => (v as number) >= 0 },
+        color: { type: 'branded-enum', ref: 'IssueColor' },
+        codes: { type: 'array', items: { type: 'branded-primitive', ref: 'IssueCode' } },
+        missing: { type: 'branded-interface', ref: 'NotRegistered' },
+      },
+      { collectAllErrors: true }
+    );
+
+    const err = captureError(() =>
+      def.create({
+        score: -1,
+        color: 'blue',
+        codes: ['abc', 'toolong'],
+        missing: {},
+      } as Record<string, unknown>)
+    ) as BrandedValidationError;
+
+    expect(err.issues.map((i) => [i.path, i.code])).toEqual([
+      [['name'], 'required'],
+      [['score'], 'custom'],
+      [['color'], 'enum_mismatch'],
+      [['codes', 1], 'ref_mismatch'],
+      [['missing'], 'ref_missing'],
+    ]);
+    expect(err.issues.every((i) => i.interfaceId === 'IssueMixed')).toBe(true);
+    expect(err.issues[2].expected).toBe('IssueColor');
+  });
+
+  it('reports non-object input with an empty path', () => {
+    const def = createBrandedInterface('IssueRoot', { x: { type: 'string' } });
+    const err = captureError(() => def.create(42 as unknown as Record<string, unknown>));
+
+    expect(isBrandedValidationError(err)).toBe(true);
+    expect((err as BrandedValidationError).issues[0]).toMatchObject({
+      path: [],
+      code: 'type_mismatch',
+      expected: 'object',
+      actual: 'number',
+    });
+  });
+});
+
+describe('structured issues propagation', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const schema = {
+    name: { type: 'string' as const },
+    tags: { type: 'array' as const, items: { type: 'string' as const } },
+  };
+
+  it('safeParseInterface exposes issues alongside field errors', () => {
+    const def = createBrandedInterface('PropSafe', schema);
+    const result = safeParseInterface({ name: 'a', tags: ['x', 1] }, def);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.fieldErrors).toEqual([
+        { field: 'tags[1]', message: result.error.issues?.[0].message },
+      ]);
+      expect(result.error.issues?.[0]).toMatchObject({ path: ['tags', 1], code: 'type_mismatch' });
+    }
+  });
+
+  it('deserialize returns issues and deserializeOrThrow throws BrandedValidationError', () => {
+    const def = createBrandedInterface('PropSer', schema, { collectAllErrors: true });
+    const serializer = interfaceSerializer(def);
+
+    const result = serializer.deserialize('{"tags":[1]}');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('VALIDATION_FAILED');
+      expect(result.error.issues?.map((i) => i.code)).toEqual(['required', 'type_mismatch']);
+    }
+
+    const err = captureError(() => serializer.deserializeOrThrow('{"tags":[1]}'));
+    expect(err).toBeInstanceOf(BrandedValidationError);
+    expect((err as BrandedValidationError).issues).toHaveLength(2);
+  });
+
+  it('codec failures carry issues from the failing step', () => {
+    const def = createBrandedInterface('PropCodec', schema);
+    const result = createCodec(def).execute({ name: 5, tags: [] });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.step).toBe(0);
+      expect(result.error.issues?.[0]).toMatchObject({ path: ['name'], code: 'type_mismatch' });
+    }
+  });
+});
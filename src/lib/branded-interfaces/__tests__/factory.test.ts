@@ -7,14 +7,25 @@
 
 import * as fc from 'fast-check';
 import { createBrandedInterface, createBrandedPrimitive } from '../factory.js';
-import { resetInterfaceRegistry } from '../registry.js';
+import { getInterfaceById, resetInterfaceRegistry } from '../registry.js';
 import {
   INTERFACE_ID,
   INTERFACE_SCHEMA,
   INTERFACE_VERSION,
   PRIMITIVE_ID,
   PRIMITIVE_BASE_TYPE,
+  BrandedInstance,
+  BrandedInterfaceDefinition,
+  InferInstance,
+  InterfaceAccessEvent,
+  InterfaceSchema,
 } from '../types.js';
+import type { BrandedEnum } from '../../types.js';
+import { BrandedValidationError } from '../errors.js';
+import { createOpaqueType } from '../opaque.js';
+import { watchInterface } from '../watch.js';
+import { createBrandedEnum } from '../../factory.js';
+import { resetRegistry } from '../../registry.js';
 import {
   arbUniqueId,
   arbInterfaceSchema,
@@ -492,6 +503,1682 @@ describe('createBrandedInterface — unit tests', () => {
   });
 });
 
+// =============================================================================
+// Unit Tests for collect-all validation mode
+// =============================================================================
+
+describe('createBrandedInterface — collect-all errors', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const schema = {
+    name: { type: 'string' as const },
+    count: { type: 'number' as const, validate: (v: unknown) => (v as number) >= 0 },
+    tags: { type: 'array' as const, items: { type: 'string' as const } },
+  };
+
+  it('throws on the first failing field by default', () => {
+    const def = createBrandedInterface('CollectDefault', schema);
+    expect(() => def.create({ name: 1, count: -1, tags: [] } as Record<string, unknown>)).toThrow(
+      /^Field "name" expected type "string" but got "number"/
+    );
+  });
+
+  it('lists every failing field when collectAllErrors is passed to create()', () => {
+    const def = createBrandedInterface('CollectPerCall', schema);
+    let message = '';
+    try {
+      def.create({ name: 1, count: -1, tags: ['ok', 3] } as Record<string, unknown>, {
+        collectAllErrors: true,
+      });
+    } catch (err) {
+      message = (err as Error).message;
+    }
+
+    expect(message).toMatch(/failed validation with 3 errors/);
+    expect(message).toMatch(/Field "name" expected type "string"/);
+    expect(message).toMatch(/Field "count" failed custom validation/);
+    expect(message).toMatch(/Field "tags\[1\]" expected type "string"/);
+  });
+
+  it('uses the definition default and lets create() override it', () => {
+    const def = createBrandedInterface('CollectDefinition', schema, { collectAllErrors: true });
+    const data = { count: 'x' } as Record<string, unknown>;
+
+    expect(() => def.create(data)).toThrow(/failed validation with 3 errors/);
+    expect(() => def.create(data, { collectAllErrors: false })).toThrow(/^Field "name" is required/);
+  });
+
+  it('does not run custom validation on a value that failed its type check', () => {
+    const validate = jest.fn(() => true);
+    const def = createBrandedInterface('CollectSkipCustom', {
+      value: { type: 'number', validate },
+    });
+
+    expect(() =>
+      def.create({ value: 'x' } as Record<string, unknown>, { collectAllErrors: true })
+    ).toThrow(/Field "value" expected type "number"/);
+    expect(validate).not.toHaveBeenCalled();
+  });
+});
+
+// =============================================================================
+// Unit Tests for nested object schemas
+// =============================================================================
+
+function catchError(fn: () => unknown): BrandedValidationError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(BrandedValidationError);
+    return err as BrandedValidationError;
+  }
+  throw new Error('Expected function to throw');
+}
+
+describe('createBrandedInterface — nested object schemas', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const addressField = {
+    type: 'object' as const,
+    properties: {
+      street: { type: 'string' as const },
+      zip: { type: 'string' as const, validate: (v: unknown) => /^\d{5}$/.test(v as string) },
+      geo: {
+        type: 'object' as const,
+        optional: true,
+        properties: { lat: { type: 'number' as const }, lng: { type: 'number' as const } },
+      },
+    },
+  };
+
+  it('accepts nested objects matching the inline schema', () => {
+    const def = createBrandedInterface('NestedPatient', { address: addressField });
+    const instance = def.create({
+      address: { street: 'Main', zip: '12345', geo: { lat: 1, lng: 2 } },
+    } as Record<string, unknown>);
+
+    expect(instance.address).toEqual({ street: 'Main', zip: '12345', geo: { lat: 1, lng: 2 } });
+  });
+
+  it('reports nested paths for failing properties', () => {
+    const def = createBrandedInterface('NestedPatient2', { address: addressField });
+
+    expect(() =>
+      def.create({ address: { street: 'Main', zip: '12345', geo: { lat: 'x', lng: 2 } } } as Record<string, unknown>)
+    ).toThrow(/^Field "address\.geo\.lat" expected type "number" but got "string"/);
+
+    const err = catchError(() =>
+      def.create({ address: { zip: 'abc' } } as Record<string, unknown>, { collectAllErrors: true })
+    );
+    expect(err.issues.map((i) => [i.path, i.code])).toEqual([
+      [['address', 'street'], 'required'],
+      [['address', 'zip'], 'custom'],
+    ]);
+  });
+
+  it('allows extra nested keys unless the object is strict', () => {
+    const loose = createBrandedInterface('NestedLoose', {
+      meta: { type: 'object', properties: { a: { type: 'string' } } },
+    });
+    expect(loose.validate({ meta: { a: 'x', b: 1 } })).toBe(true);
+
+    const strict = createBrandedInterface('NestedStrict', {
+      meta: { type: 'object', strict: true, properties: { a: { type: 'string' } } },
+    });
+    expect(strict.validate({ meta: { a: 'x' } })).toBe(true);
+    const err = catchError(() => strict.create({ meta: { a: 'x', b: 1 } } as Record<string, unknown>));
+    expect(err.issues[0]).toMatchObject({ path: ['meta', 'b'], code: 'unrecognized_key' });
+  });
+});
+
+// =============================================================================
+// Unit Tests for auto-branding nested interface refs
+// =============================================================================
+
+describe('createBrandedInterface — auto-brand nested refs', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  function defineOrder() {
+    const Item = createBrandedInterface('AutoItem', {
+      sku: { type: 'string' },
+      qty: { type: 'number' },
+    });
+    const Order = createBrandedInterface('AutoOrder', {
+      primary: { type: 'branded-interface', ref: 'AutoItem' },
+      items: { type: 'array', items: { type: 'branded-interface', ref: 'AutoItem' } },
+    });
+    return { Item, Order };
+  }
+
+  it('rejects plain nested objects unless autoBrand is enabled', () => {
+    const { Order } = defineOrder();
+    const data = { primary: { sku: 'a', qty: 1 }, items: [] } as Record<string, unknown>;
+
+    expect(() => Order.create(data)).toThrow(/failed validation against referenced type "AutoItem"/);
+    expect(Order.validate(data)).toBe(false);
+  });
+
+  it('validates and brands nested plain objects, including arrays of refs', () => {
+    const { Item, Order } = defineOrder();
+    const existing = Item.create({ sku: 'b', qty: 2 });
+    const input = {
+      primary: { sku: 'a', qty: 1 },
+      items: [existing, { sku: 'c', qty: 3 }],
+    } as Record<string, unknown>;
+
+    const order = Order.create(input, { autoBrand: true });
+    const items = order.items as unknown[];
+
+    expect((order.primary as Record<symbol, unknown>)[INTERFACE_ID]).toBe('AutoItem');
+    expect(Object.isFrozen(order.primary)).toBe(true);
+    expect(items[0]).toBe(existing);
+    expect((items[1] as Record<symbol, unknown>)[INTERFACE_ID]).toBe('AutoItem');
+    expect(items[1]).toEqual({ sku: 'c', qty: 3 });
+
+    // The caller's input is left untouched
+    expect((input.primary as Record<symbol, unknown>)[INTERFACE_ID]).toBeUndefined();
+    expect((input.items as unknown[])[1]).not.toBe(items[1]);
+  });
+
+  it('reports nested paths and the referenced interface ID for invalid children', () => {
+    const { Order } = defineOrder();
+
+    const err = catchError(() =>
+      Order.create(
+        { primary: { sku: 'a' }, items: [{ sku: 1, qty: 1 }] } as Record<string, unknown>,
+        { autoBrand: true, collectAllErrors: true }
+      )
+    );
+
+    expect(err.interfaceId).toBe('AutoOrder');
+    expect(err.issues.map((i) => [i.path, i.code, i.interfaceId])).toEqual([
+      [['primary', 'qty'], 'required', 'AutoItem'],
+      [['items', 0, 'sku'], 'type_mismatch', 'AutoItem'],
+    ]);
+  });
+
+  it('still rejects values branded with a different interface', () => {
+    const { Order } = defineOrder();
+    const Other = createBrandedInterface('AutoOther', {
+      sku: { type: 'string' },
+      qty: { type: 'number' },
+    });
+
+    expect(() =>
+      Order.create(
+        { primary: Other.create({ sku: 'a', qty: 1 }), items: [] } as Record<string, unknown>,
+        { autoBrand: true }
+      )
+    ).toThrow(/referenced type "AutoItem"/);
+  });
+
+  it('uses the definition-level autoBrand default for create() and validate()', () => {
+    createBrandedInterface('AutoLeaf', { v: { type: 'number' } });
+    const Parent = createBrandedInterface(
+      'AutoParent',
+      { leaf: { type: 'branded-interface', ref: 'AutoLeaf' } },
+      { autoBrand: true }
+    );
+
+    expect(Parent.validate({ leaf: { v: 1 } })).toBe(true);
+    expect(Parent.validate({ leaf: { v: 'x' } })).toBe(false);
+    const parent = Parent.create({ leaf: { v: 1 } } as Record<string, unknown>);
+    expect((parent.leaf as Record<symbol, unknown>)[INTERFACE_ID]).toBe('AutoLeaf');
+  });
+});
+
+// =============================================================================
+// Unit Tests for unknown-key handling
+// =============================================================================
+
+describe('createBrandedInterface — unknownKeys modes', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const schema = { name: { type: 'string' as const } };
+  const input = { name: 'Ann', extra: 1, other: true } as Record<string, unknown>;
+
+  it('copies undeclared keys by default (passthrough)', () => {
+    const def = createBrandedInterface('KeysDefault', schema);
+    expect(def.unknownKeys).toBeUndefined();
+    expect(def.create(input)).toEqual(input);
+  });
+
+  it('removes undeclared keys in strip mode without touching the input', () => {
+    const def = createBrandedInterface('KeysStrip', schema, { unknownKeys: 'strip' });
+    const instance = def.create(input);
+
+    expect(def.unknownKeys).toBe('strip');
+    expect(Object.keys(instance)).toEqual(['name']);
+    expect(input.extra).toBe(1);
+    expect(def.validate(input)).toBe(true);
+  });
+
+  it('reports every undeclared key in strict mode', () => {
+    const def = createBrandedInterface('KeysStrict', schema, { unknownKeys: 'strict' });
+
+    expect(def.validate(input)).toBe(false);
+    expect(def.create({ name: 'Ann' } as Record<string, unknown>).name).toBe('Ann');
+
+    const err = catchError(() => def.create(input, { collectAllErrors: true }));
+    expect(err.issues.map((i) => [i.path, i.code])).toEqual([
+      [['extra'], 'unrecognized_key'],
+      [['other'], 'unrecognized_key'],
+    ]);
+    expect(err.issues[0].message).toBe(
+      'Field "extra" is not declared in the schema of interface "KeysStrict"'
+    );
+  });
+
+  it('applies the referenced definition mode when auto-branding nested refs', () => {
+    createBrandedInterface('KeysChild', schema, { unknownKeys: 'strip' });
+    const Parent = createBrandedInterface('KeysParent', {
+      child: { type: 'branded-interface', ref: 'KeysChild' },
+    });
+
+    const parent = Parent.create({ child: { name: 'a', extra: 1 } } as Record<string, unknown>, {
+      autoBrand: true,
+    });
+    expect(Object.keys(parent.child as object)).toEqual(['name']);
+  });
+});
+
+// =============================================================================
+// Unit Tests for field defaults
+// =============================================================================
+
+describe('createBrandedInterface — field defaults', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('fills missing fields with static and factory defaults', () => {
+    let counter = 0;
+    const def = createBrandedInterface('DefaultTask', {
+      title: { type: 'string' },
+      status: { type: 'string', default: 'pending' },
+      tags: { type: 'array', items: { type: 'string' }, default: [] },
+      seq: { type: 'number', default: () => ++counter },
+    });
+
+    const first = def.create({ title: 'a' } as Record<string, unknown>);
+    const second = def.create({ title: 'b', status: 'done' } as Record<string, unknown>);
+
+    expect(first).toEqual({ title: 'a', status: 'pending', tags: [], seq: 1 });
+    expect(second).toEqual({ title: 'b', status: 'done', tags: [], seq: 2 });
+    // Static object defaults are copied, never shared between instances
+    expect(first.tags).not.toBe(second.tags);
+  });
+
+  it('applies defaults in validate() and only for undefined values', () => {
+    const def = createBrandedInterface('DefaultNullable', {
+      note: { type: 'string', nullable: true, default: 'none' },
+    });
+
+    expect(def.validate({})).toBe(true);
+    expect(def.create({} as Record<string, unknown>).note).toBe('none');
+    expect(def.create({ note: null } as Record<string, unknown>).note).toBeNull();
+  });
+
+  it('validates default values like input', () => {
+    const def = createBrandedInterface('DefaultInvalid', {
+      count: { type: 'number', default: 'zero' },
+    });
+
+    expect(() => def.create({} as Record<string, unknown>)).toThrow(
+      /Field "count" expected type "number" but got "string"/
+    );
+  });
+
+  it('fills defaults inside nested object schemas', () => {
+    const def = createBrandedInterface('DefaultNested', {
+      settings: {
+        type: 'object',
+        properties: { theme: { type: 'string', default: 'light' } },
+      },
+    });
+
+    expect(def.create({ settings: {} } as Record<string, unknown>).settings).toEqual({
+      theme: 'light',
+    });
+  });
+});
+
+describe('createBrandedInterface — input coercion', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+    resetRegistry();
+  });
+
+  function defineFilter() {
+    createBrandedEnum('CoerceStatus', { Active: 'active', Archived: 'archived' } as const);
+    createBrandedPrimitive('CoercePage', 'number');
+    return createBrandedInterface('CoerceFilter', {
+      q: { type: 'string' },
+      limit: { type: 'number' },
+      page: { type: 'branded-primitive', ref: 'CoercePage' },
+      archived: { type: 'boolean' },
+      ids: { type: 'array', items: { type: 'number' } },
+      status: { type: 'branded-enum', ref: 'CoerceStatus' },
+      offset: { type: 'number', optional: true },
+    });
+  }
+
+  it('leaves input untouched unless coercion is enabled', () => {
+    const def = defineFilter();
+    const input = { q: 'x', limit: '10', page: 1, archived: false, ids: [], status: 'active' };
+
+    expect(() => def.create(input as Record<string, unknown>)).toThrow(
+      /Field "limit" expected type "number" but got "string"/
+    );
+  });
+
+  it('coerces string input to each field type', () => {
+    const def = defineFilter();
+    const result = def.create(
+      {
+        q: 42,
+        limit: ' 10 ',
+        page: '2',
+        archived: 'TRUE',
+        ids: '1, 2,3',
+        status: 'Archived',
+        offset: '',
+      } as Record<string, unknown>,
+      { coerce: true }
+    );
+
+    expect(result).toEqual({
+      q: '42',
+      limit: 10,
+      page: 2,
+      archived: true,
+      ids: [1, 2, 3],
+      status: 'archived',
+      offset: undefined,
+    });
+  });
+
+  it('validates coerced values as usual', () => {
+    const def = defineFilter();
+    const error = catchError(() =>
+      def.create(
+        {
+          q: 'x',
+          limit: 'ten',
+          page: '1',
+          archived: 'maybe',
+          ids: '1,x',
+          status: 'deleted',
+        } as Record<string, unknown>,
+        { coerce: true, collectAllErrors: true }
+      )
+    );
+
+    expect(error.issues.map((issue) => [issue.path, issue.code])).toEqual([
+      [['limit'], 'type_mismatch'],
+      [['archived'], 'type_mismatch'],
+      [['ids', 1], 'type_mismatch'],
+      [['status'], 'enum_mismatch'],
+    ]);
+  });
+
+  it('treats empty strings as missing values for non-string fields', () => {
+    const def = createBrandedInterface(
+      'CoerceDefaults',
+      {
+        name: { type: 'string' },
+        size: { type: 'number', default: 20 },
+      },
+      { coerce: true }
+    );
+
+    expect(def.create({ name: '', size: '' } as Record<string, unknown>)).toEqual({
+      name: '',
+      size: 20,
+    });
+    expect(() =>
+      def.create({ name: 'a', size: '5' } as Record<string, unknown>, { coerce: false })
+    ).toThrow(/expected type "number"/);
+  });
+
+  it('never coerces in validate() and validateAsync()', async () => {
+    const def = createBrandedInterface('CoerceGuard', { n: { type: 'number' } }, { coerce: true });
+
+    expect(def.create({ n: '42' } as Record<string, unknown>)).toEqual({ n: 42 });
+    expect(def.validate({ n: '42' })).toBe(false);
+    await expect(def.validateAsync({ n: '42' })).resolves.toBe(false);
+    expect(def.validate({ n: 42 })).toBe(true);
+  });
+
+  it('parses JSON strings for object fields', () => {
+    const def = createBrandedInterface('CoerceObject', {
+      meta: { type: 'object', properties: { n: { type: 'number' } } },
+    });
+
+    expect(def.create({ meta: '{"n":"3"}' } as Record<string, unknown>, { coerce: true })).toEqual({
+      meta: { n: 3 },
+    });
+  });
+});
+
+describe('createBrandedInterface — interface refinements', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  interface Booking extends Record<string, unknown> {
+    startDate: number;
+    endDate: number;
+  }
+
+  function defineBooking() {
+    return createBrandedInterface<Booking>(
+      'RefineBooking',
+      {
+        startDate: { type: 'number' },
+        endDate: { type: 'number' },
+      },
+      {
+        refinements: [
+          (data, ctx) => {
+            if (data.endDate <= data.startDate) {
+              ctx.addIssue({ path: ['endDate'], message: 'endDate must be after startDate' });
+            }
+          },
+        ],
+      }
+    );
+  }
+
+  it('runs refinements after field validation and reports issues at their paths', () => {
+    const def = defineBooking();
+
+    expect(def.create({ startDate: 1, endDate: 2 })).toEqual({ startDate: 1, endDate: 2 });
+    expect(def.validate({ startDate: 2, endDate: 1 })).toBe(false);
+
+    const error = catchError(() => def.create({ startDate: 2, endDate: 1 }));
+    expect(error.message).toBe('endDate must be after startDate');
+    expect(error.issues).toEqual([
+      {
+        path: ['endDate'],
+        code: 'custom',
+        message: 'endDate must be after startDate',
+        interfaceId: 'RefineBooking',
+      },
+    ]);
+  });
+
+  it('skips refinements while fields are invalid', () => {
+    const refinement = jest.fn();
+    const def = createBrandedInterface(
+      'RefineSkipped',
+      { a: { type: 'number' } },
+      { refinements: [refinement] }
+    );
+
+    expect(() => def.create({ a: 'x' } as Record<string, unknown>, { collectAllErrors: true })).toThrow(
+      BrandedValidationError
+    );
+    expect(refinement).not.toHaveBeenCalled();
+  });
+
+  it('reports a generic issue naming a refinement that returns false', () => {
+    function passwordsMatch(data: Readonly<Record<string, unknown>>): boolean {
+      return data['password'] === data['confirmPassword'];
+    }
+    const def = createBrandedInterface(
+      'RefineSignup',
+      { password: { type: 'string' }, confirmPassword: { type: 'string' } },
+      { refinements: [passwordsMatch] }
+    );
+
+    const error = catchError(() =>
+      def.create({ password: 'a', confirmPassword: 'b' } as Record<string, unknown>)
+    );
+    expect(error.issues[0].path).toEqual([]);
+    expect(error.message).toBe('Interface "RefineSignup" failed refinement "passwordsMatch"');
+  });
+
+  it('collects issues from every refinement when collecting all errors', () => {
+    const def = createBrandedInterface(
+      'RefineCollect',
+      { a: { type: 'number' }, b: { type: 'number' } },
+      {
+        collectAllErrors: true,
+        refinements: [
+          (data, ctx) => {
+            if ((data['a'] as number) < 0) ctx.addIssue({ path: ['a'], message: 'a is negative' });
+            if ((data['b'] as number) < 0) ctx.addIssue({ path: ['b'], message: 'b is negative' });
+          },
+          () => false,
+        ],
+      }
+    );
+
+    const error = catchError(() => def.create({ a: -1, b: -1 } as Record<string, unknown>));
+    expect(error.issues.map((issue) => issue.message)).toEqual([
+      'a is negative',
+      'b is negative',
+      'Interface "RefineCollect" failed refinement "anonymous"',
+    ]);
+  });
+
+  it('runs refinements of auto-branded refs with nested paths', () => {
+    defineBooking();
+    const Trip = createBrandedInterface('RefineTrip', {
+      booking: { type: 'branded-interface', ref: 'RefineBooking' },
+    });
+
+    const error = catchError(() =>
+      Trip.create({ booking: { startDate: 5, endDate: 1 } } as Record<string, unknown>, {
+        autoBrand: true,
+      })
+    );
+    expect(error.issues[0].path).toEqual(['booking', 'endDate']);
+    expect(error.issues[0].interfaceId).toBe('RefineBooking');
+  });
+
+  it('exposes refinements on the definition only when configured', () => {
+    expect(defineBooking().refinements).toHaveLength(1);
+    expect('refinements' in createBrandedInterface('RefineNone', { a: { type: 'string' } })).toBe(
+      false
+    );
+  });
+});
+
+describe('createBrandedInterface — async validation', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const taken = new Set(['admin']);
+
+  function defineAccount() {
+    return createBrandedInterface(
+      'AsyncAccount',
+      {
+        username: {
+          type: 'string',
+          validateAsync: async (value) => !taken.has(value as string),
+        },
+        referrer: {
+          type: 'string',
+          optional: true,
+          validateAsync: async (value) => value !== 'nobody',
+        },
+      },
+      {
+        asyncRefinements: [
+          async (data, ctx) => {
+            if (data['username'] === data['referrer']) {
+              ctx.addIssue({ path: ['referrer'], message: 'Cannot refer yourself' });
+            }
+          },
+        ],
+      }
+    );
+  }
+
+  it('createAsync() runs async validators and brands the result', async () => {
+    const def = defineAccount();
+    const instance = await def.createAsync({ username: 'ann' });
+
+    expect(instance).toEqual({ username: 'ann' });
+    expect(instance[INTERFACE_ID]).toBe('AsyncAccount');
+    await expect(def.validateAsync({ username: 'ann' })).resolves.toBe(true);
+  });
+
+  it('reports failing async field validators with the sync issue structure', async () => {
+    const def = defineAccount();
+    const error = await def
+      .createAsync({ username: 'admin', referrer: 'nobody' }, { collectAllErrors: true })
+      .catch((err: BrandedValidationError) => err);
+
+    expect(error).toBeInstanceOf(BrandedValidationError);
+    expect((error as BrandedValidationError).issues).toEqual([
+      {
+        path: ['username'],
+        code: 'custom',
+        message: 'Field "username" failed async validation in interface "AsyncAccount"',
+        interfaceId: 'AsyncAccount',
+      },
+      {
+        path: ['referrer'],
+        code: 'custom',
+        message: 'Field "referrer" failed async validation in interface "AsyncAccount"',
+        interfaceId: 'AsyncAccount',
+      },
+    ]);
+    await expect(def.validateAsync({ username: 'admin' })).resolves.toBe(false);
+  });
+
+  it('runs async refinements once async field validators pass', async () => {
+    const def = defineAccount();
+    await expect(def.createAsync({ username: 'bob', referrer: 'bob' })).rejects.toThrow(
+      'Cannot refer yourself'
+    );
+  });
+
+  it('skips async validators when synchronous validation fails', async () => {
+    const validateAsync = jest.fn(async () => true);
+    const def = createBrandedInterface('AsyncSkipped', {
+      a: { type: 'string', validateAsync },
+      b: { type: 'number' },
+    });
+
+    await expect(def.createAsync({ a: 'x', b: 'y' } as Record<string, unknown>)).rejects.toThrow(
+      /Field "b" expected type "number"/
+    );
+    expect(validateAsync).not.toHaveBeenCalled();
+  });
+
+  it('runs independent async checks concurrently', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const slowCheck = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return true;
+    };
+    const def = createBrandedInterface('AsyncConcurrent', {
+      a: { type: 'string', validateAsync: slowCheck },
+      b: { type: 'string', validateAsync: slowCheck },
+      c: { type: 'array', items: { type: 'string', validateAsync: slowCheck } },
+    });
+
+    await def.createAsync({ a: 'x', b: 'y', c: ['z'] } as Record<string, unknown>);
+    expect(maxActive).toBe(3);
+  });
+
+  it('rejects with the error of a failing async validator', async () => {
+    const def = createBrandedInterface('AsyncLookupDown', {
+      mrn: {
+        type: 'string',
+        validateAsync: async () => {
+          throw new Error('lookup unavailable');
+        },
+      },
+    });
+
+    await expect(def.createAsync({ mrn: 'x' } as Record<string, unknown>)).rejects.toThrow(
+      'lookup unavailable'
+    );
+  });
+
+  it('sync create() refuses definitions with async validators and validate() rejects them', () => {
+    const def = defineAccount();
+    const nested = createBrandedInterface('AsyncNested', {
+      meta: { type: 'object', properties: { id: { type: 'string', validateAsync: async () => true } } },
+    });
+
+    expect(() => def.create({ username: 'ann' })).toThrow(
+      'Interface "AsyncAccount" declares async validators; use createAsync() instead of create()'
+    );
+    expect(def.validate({ username: 'ann' })).toBe(false);
+    expect(nested.validate({ meta: { id: 'x' } })).toBe(false);
+    expect(() => nested.create({ meta: { id: 'x' } } as Record<string, unknown>)).toThrow(
+      /declares async validators/
+    );
+  });
+
+  it('sync create() refuses auto-branded refs with async validators', () => {
+    defineAccount();
+    const Invite = createBrandedInterface('AsyncInvite', {
+      account: { type: 'branded-interface', ref: 'AsyncAccount' },
+    });
+
+    expect(() =>
+      Invite.create({ account: { username: 'ann' } } as Record<string, unknown>, { autoBrand: true })
+    ).toThrow(/validate "AsyncInvite" with createAsync\(\)/);
+  });
+
+  it('rejects promise-returning sync validators instead of accepting them', () => {
+    const def = createBrandedInterface('AsyncMisdeclared', {
+      name: { type: 'string', validate: (async () => false) as unknown as () => boolean },
+    });
+
+    expect(() => def.create({ name: 'x' } as Record<string, unknown>)).toThrow(
+      /returned a Promise.*use validateAsync/
+    );
+  });
+});
+
+describe('createBrandedInterface — deep freezing', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const schema = {
+    tags: { type: 'array' as const, items: { type: 'string' as const } },
+    meta: { type: 'object' as const },
+  };
+
+  it('deep-freezes nested arrays and plain objects outside production', () => {
+    const def = createBrandedInterface('DeepDefault', schema);
+    const instance = def.create({ tags: ['a'], meta: { nested: { n: 1 }, list: [{ x: 1 }] } });
+    const meta = instance['meta'] as { nested: object; list: object[] };
+
+    expect(Object.isFrozen(instance['tags'])).toBe(true);
+    expect(Object.isFrozen(meta)).toBe(true);
+    expect(Object.isFrozen(meta.nested)).toBe(true);
+    expect(Object.isFrozen(meta.list[0])).toBe(true);
+  });
+
+  it("copies nested values so the caller's input cannot change the instance", () => {
+    const def = createBrandedInterface('DeepCopy', schema, { deepFreeze: true });
+    const input = { tags: ['a'], meta: { n: 1 } };
+    const instance = def.create(input);
+
+    input.tags.push('b');
+    input.meta.n = 2;
+
+    expect(instance).toEqual({ tags: ['a'], meta: { n: 1 } });
+    expect(Object.isFrozen(input.tags)).toBe(false);
+  });
+
+  it('keeps branded instances, non-plain objects, shared and cyclic references', () => {
+    const Inner = createBrandedInterface('DeepInner', { v: { type: 'number' } });
+    const inner = Inner.create({ v: 1 });
+    const def = createBrandedInterface('DeepRefs', { meta: { type: 'object' } }, { deepFreeze: true });
+    const when = new Date(0);
+    const shared = { s: 1 };
+    const cyclic: Record<string, unknown> = { shared };
+    cyclic['self'] = cyclic;
+
+    const meta = def.create({ meta: { inner, when, a: shared, b: shared, cyclic } })['meta'] as Record<
+      string,
+      Record<string, unknown>
+    >;
+
+    expect(meta['inner']).toBe(inner);
+    expect(meta['when']).toBe(when);
+    expect(meta['a']).not.toBe(shared);
+    expect(meta['a']).toBe(meta['b']);
+    expect(meta['cyclic']['self']).toBe(meta['cyclic']);
+    expect(meta['cyclic']['shared']).toBe(meta['a']);
+  });
+
+  it('freezes only the top level when disabled', () => {
+    const def = createBrandedInterface('DeepOff', schema, { deepFreeze: false });
+    const input = { tags: ['a'], meta: { n: 1 } };
+    const instance = def.create(input);
+
+    expect(Object.isFrozen(instance)).toBe(true);
+    expect(instance['tags']).toBe(input.tags);
+    expect(Object.isFrozen(instance['tags'])).toBe(false);
+  });
+
+  it('defaults to shallow freezing in production', () => {
+    const previous = process.env['NODE_ENV'];
+    process.env['NODE_ENV'] = 'production';
+    try {
+      const def = createBrandedInterface('DeepProd', schema);
+      expect(Object.isFrozen(def.create({ tags: [], meta: {} })['tags'])).toBe(false);
+    } finally {
+      process.env['NODE_ENV'] = previous;
+    }
+  });
+
+  it('deep-freezes auto-branded nested instances', () => {
+    createBrandedInterface('DeepChild', { tags: schema.tags }, { deepFreeze: false });
+    const Parent = createBrandedInterface(
+      'DeepParent',
+      { child: { type: 'branded-interface', ref: 'DeepChild' } },
+      { deepFreeze: true, autoBrand: true }
+    );
+
+    const parent = Parent.create({ child: { tags: ['a'] } } as Record<string, unknown>);
+    const child = parent['child'] as Record<string | symbol, unknown>;
+    expect(child[INTERFACE_ID]).toBe('DeepChild');
+    expect(Object.isFrozen(child['tags'])).toBe(true);
+  });
+});
+
+describe('createBrandedInterface — union and literal fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('accepts only the literal value', () => {
+    const def = createBrandedInterface('LiteralDoc', { kind: { type: 'literal', value: 'v2' } });
+
+    expect(def.create({ kind: 'v2' } as Record<string, unknown>)).toEqual({ kind: 'v2' });
+    const error = catchError(() => def.create({ kind: 'v1' } as Record<string, unknown>));
+    expect(error.issues[0]).toMatchObject({
+      path: ['kind'],
+      code: 'invalid_literal',
+      expected: '"v2"',
+      actual: 'string',
+    });
+    expect(error.message).toBe('Field "kind" expected literal "v2" in interface "LiteralDoc"');
+  });
+
+  it('accepts a value matching any union member', () => {
+    const def = createBrandedInterface('UnionDoc', {
+      id: { type: 'union', members: [{ type: 'string' }, { type: 'number' }] },
+    });
+
+    expect(def.validate({ id: 'a' })).toBe(true);
+    expect(def.validate({ id: 1 })).toBe(true);
+
+    const error = catchError(() => def.create({ id: true } as Record<string, unknown>));
+    expect(error.issues).toEqual([
+      {
+        path: ['id'],
+        code: 'invalid_union',
+        expected: 'string | number',
+        actual: 'boolean',
+        interfaceId: 'UnionDoc',
+        message: 'Field "id" did not match any member of its union in interface "UnionDoc"',
+      },
+    ]);
+  });
+
+  it('matches unions of branded interfaces and keeps the first match output', () => {
+    const Cat = createBrandedInterface('UnionCat', { meows: { type: 'boolean' } });
+    createBrandedInterface('UnionDog', { barks: { type: 'boolean' } });
+    const def = createBrandedInterface('UnionOwner', {
+      pet: {
+        type: 'union',
+        members: [
+          { type: 'branded-interface', ref: 'UnionCat' },
+          { type: 'branded-interface', ref: 'UnionDog' },
+        ],
+      },
+    });
+
+    const cat = Cat.create({ meows: true });
+    expect(def.create({ pet: cat } as Record<string, unknown>)['pet']).toBe(cat);
+
+    const owner = def.create({ pet: { barks: true } } as Record<string, unknown>, {
+      autoBrand: true,
+    });
+    expect((owner['pet'] as Record<symbol, unknown>)[INTERFACE_ID]).toBe('UnionDog');
+  });
+
+  it('coerces against each union member and literal type', () => {
+    const def = createBrandedInterface(
+      'UnionCoerce',
+      {
+        count: { type: 'union', members: [{ type: 'number' }, { type: 'literal', value: 'all' }] },
+        version: { type: 'literal', value: 2 },
+      },
+      { coerce: true }
+    );
+
+    expect(def.create({ count: '5', version: '2' } as Record<string, unknown>)).toEqual({
+      count: 5,
+      version: 2,
+    });
+    expect(def.create({ count: 'all', version: 2 } as Record<string, unknown>)['count']).toBe('all');
+  });
+});
+
+describe('createBrandedInterface — opaque fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('accepts only values wrapped by the referenced opaque type', () => {
+    const Ssn = createOpaqueType<string>('FieldSsn', 'string');
+    const Other = createOpaqueType<string>('FieldOtherSecret', 'string');
+    const Patient = createBrandedInterface('OpaquePatient', {
+      name: { type: 'string' },
+      ssn: { type: 'branded-opaque', ref: 'FieldSsn' },
+    });
+
+    const ssn = Ssn.wrap('123-45-6789');
+    const patient = Patient.create({ name: 'Ann', ssn });
+    expect(patient['ssn']).toBe(ssn);
+    expect(Ssn.unwrap(patient['ssn'] as typeof ssn)).toBe('123-45-6789');
+
+    for (const value of ['123-45-6789', {}, Other.wrap('x')]) {
+      const error = catchError(() => Patient.create({ name: 'Ann', ssn: value }));
+      expect(error.issues[0]).toMatchObject({
+        path: ['ssn'],
+        code: 'ref_mismatch',
+        expected: 'FieldSsn',
+      });
+    }
+  });
+
+  it('reports refs that do not name an opaque type', () => {
+    createBrandedInterface('OpaqueNotOpaque', { x: { type: 'string' } });
+    const def = createBrandedInterface('OpaqueBadRef', {
+      secret: { type: 'branded-opaque', ref: 'OpaqueNotOpaque' },
+    });
+
+    expect(catchError(() => def.create({ secret: {} })).message).toBe(
+      'Field "secret" references opaque type "OpaqueNotOpaque" which is not registered, in interface "OpaqueBadRef"'
+    );
+  });
+
+  it('keeps opaque values intact when deep-freezing', () => {
+    const Token = createOpaqueType<string>('FieldToken', 'string');
+    const def = createBrandedInterface(
+      'OpaqueSession',
+      { tokens: { type: 'array', items: { type: 'branded-opaque', ref: 'FieldToken' } } },
+      { deepFreeze: true }
+    );
+
+    const instance = def.create({ tokens: [Token.wrap('abc')] });
+    const [token] = instance['tokens'] as Array<ReturnType<typeof Token.wrap>>;
+    expect(Token.unwrap(token)).toBe('abc');
+  });
+});
+
+describe('createBrandedInterface — recursive interfaces', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const createTree = () =>
+    createBrandedInterface(
+      'TreeNode',
+      {
+        name: { type: 'string' },
+        children: { type: 'array', items: { type: 'branded-interface', ref: 'self' } },
+      },
+      { autoBrand: true }
+    );
+
+  it('validates and brands nested nodes through a self ref', () => {
+    const Tree = createTree();
+
+    const root = Tree.create({
+      name: 'root',
+      children: [{ name: 'a', children: [{ name: 'a1', children: [] }] }],
+    });
+    const child = (root['children'] as Array<Record<string, unknown>>)[0];
+    const grandchild = (child['children'] as Array<Record<string, unknown>>)[0];
+    expect((child as Record<symbol, unknown>)[INTERFACE_ID]).toBe('TreeNode');
+    expect((grandchild as Record<symbol, unknown>)[INTERFACE_ID]).toBe('TreeNode');
+
+    const invalidLeaf = { name: 1, children: [] };
+    const error = catchError(() =>
+      Tree.create({ name: 'root', children: [{ name: 'a', children: [invalidLeaf] }] })
+    );
+    expect(error.issues[0]).toMatchObject({
+      path: ['children', 0, 'children', 0, 'name'],
+      code: 'type_mismatch',
+      interfaceId: 'TreeNode',
+    });
+  });
+
+  it('accepts already-branded nodes without autoBrand', () => {
+    const Tree = createBrandedInterface('PlainTreeNode', {
+      name: { type: 'string' },
+      parent: { type: 'branded-interface', ref: 'self', nullable: true },
+    });
+
+    const root = Tree.create({ name: 'root', parent: null });
+    expect(Tree.validate({ name: 'leaf', parent: root })).toBe(true);
+    const error = catchError(() =>
+      Tree.create({ name: 'leaf', parent: { name: 'x', parent: null } })
+    );
+    expect(error.issues[0]).toMatchObject({ code: 'ref_mismatch', expected: 'PlainTreeNode' });
+  });
+
+  it('resolves refs lazily so interfaces can refer to each other', () => {
+    const Comment = createBrandedInterface(
+      'ThreadComment',
+      {
+        text: { type: 'string' },
+        thread: { type: 'branded-interface', ref: 'Thread', optional: true },
+      },
+      { autoBrand: true }
+    );
+    createBrandedInterface(
+      'Thread',
+      { comments: { type: 'array', items: { type: 'branded-interface', ref: 'ThreadComment' } } },
+      { autoBrand: true }
+    );
+
+    const comment = Comment.create({ text: 'hi', thread: { comments: [{ text: 'reply' }] } });
+    expect((comment['thread'] as Record<symbol, unknown>)[INTERFACE_ID]).toBe('Thread');
+  });
+
+  it('reports cyclic input instead of recursing forever', () => {
+    const Tree = createTree();
+    const root: Record<string, unknown> = { name: 'root', children: [] };
+    const child = { name: 'child', children: [root] };
+    root['children'] = [child];
+
+    const error = catchError(() => Tree.create(root));
+    expect(error.issues[0]).toMatchObject({
+      path: ['children', 0, 'children', 0],
+      code: 'circular_reference',
+      expected: 'TreeNode',
+    });
+    expect(error.message).toBe(
+      'Field "children[0].children[0]" refers back to an enclosing object in interface "TreeNode"'
+    );
+  });
+
+  it('accepts the same plain object in sibling positions', () => {
+    const Tree = createTree();
+    const leaf = { name: 'leaf', children: [] };
+
+    expect(Tree.validate({ name: 'root', children: [leaf, leaf] })).toBe(true);
+  });
+});
+
+describe('createBrandedInterface — declarative constraints', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('enforces string length and pattern', () => {
+    const def = createBrandedInterface('ConstraintUser', {
+      username: { type: 'string', minLength: 3, maxLength: 8, pattern: '^[a-z]+$' },
+    });
+
+    expect(def.validate({ username: 'alice' })).toBe(true);
+
+    const error = catchError(() => def.create({ username: 'Al' }, { collectAllErrors: true }));
+    expect(error.issues).toEqual([
+      {
+        path: ['username'],
+        code: 'too_small',
+        expected: '3 characters',
+        actual: '2 characters',
+        interfaceId: 'ConstraintUser',
+        message: 'Field "username" must be at least 3 characters long in interface "ConstraintUser"',
+      },
+      {
+        path: ['username'],
+        code: 'pattern_mismatch',
+        expected: '^[a-z]+$',
+        interfaceId: 'ConstraintUser',
+        message: 'Field "username" does not match pattern /^[a-z]+$/ in interface "ConstraintUser"',
+      },
+    ]);
+    expect(catchError(() => def.create({ username: 'abcdefghi' })).issues[0].code).toBe('too_big');
+  });
+
+  it('enforces numeric ranges and integers', () => {
+    const def = createBrandedInterface('ConstraintAge', {
+      age: { type: 'number', min: 0, max: 150, integer: true },
+    });
+
+    expect(def.validate({ age: 42 })).toBe(true);
+    expect(catchError(() => def.create({ age: -1 })).issues[0]).toMatchObject({
+      code: 'too_small',
+      expected: '>= 0',
+      actual: '-1',
+    });
+    expect(catchError(() => def.create({ age: 151 })).issues[0].code).toBe('too_big');
+    expect(catchError(() => def.create({ age: 4.5 })).issues[0]).toMatchObject({
+      code: 'not_integer',
+      message: 'Field "age" must be an integer in interface "ConstraintAge"',
+    });
+  });
+
+  it('enforces array item counts and uniqueness', () => {
+    const def = createBrandedInterface('ConstraintTags', {
+      tags: {
+        type: 'array',
+        items: { type: 'string', minLength: 1 },
+        minItems: 1,
+        maxItems: 3,
+        uniqueItems: true,
+      },
+    });
+
+    expect(def.validate({ tags: ['a', 'b'] })).toBe(true);
+    expect(catchError(() => def.create({ tags: [] })).issues[0]).toMatchObject({
+      path: ['tags'],
+      code: 'too_small',
+      expected: '1 items',
+    });
+    expect(catchError(() => def.create({ tags: ['a', 'b', 'c', 'd'] })).issues[0].code).toBe(
+      'too_big'
+    );
+    expect(catchError(() => def.create({ tags: ['a', 'b', 'a'] })).issues[0]).toMatchObject({
+      path: ['tags', 2],
+      code: 'not_unique',
+      message: 'Field "tags[2]" duplicates an earlier item in interface "ConstraintTags"',
+    });
+    expect(catchError(() => def.create({ tags: [''] })).issues[0]).toMatchObject({
+      path: ['tags', 0],
+      code: 'too_small',
+    });
+  });
+
+  it('compares array items structurally for uniqueness', () => {
+    const def = createBrandedInterface('ConstraintUniqueObjects', {
+      points: {
+        type: 'array',
+        items: { type: 'object', properties: { x: { type: 'number' }, y: { type: 'number' } } },
+        uniqueItems: true,
+      },
+      days: { type: 'array', items: { type: 'date' }, uniqueItems: true },
+    });
+
+    expect(def.validate({ points: [{ x: 1, y: 2 }, { x: 2, y: 1 }], days: [] })).toBe(true);
+    expect(
+      catchError(() =>
+        def.create({
+          points: [
+            { x: 1, y: 2 },
+            { y: 2, x: 1 },
+          ],
+          days: [],
+        })
+      ).issues[0]
+    ).toMatchObject({ path: ['points', 1], code: 'not_unique' });
+    expect(
+      catchError(() => def.create({ points: [], days: [new Date(0), new Date(0)] })).issues[0]
+    ).toMatchObject({ path: ['days', 1], code: 'not_unique' });
+  });
+
+  it('applies constraints to coerced values and skips the custom predicate on failure', () => {
+    const validate = jest.fn(() => true);
+    const def = createBrandedInterface(
+      'ConstraintCoerce',
+      { limit: { type: 'number', max: 100, validate } },
+      { coerce: true }
+    );
+
+    expect(def.create({ limit: '50' })['limit']).toBe(50);
+    expect(catchError(() => def.create({ limit: '500' })).issues[0].code).toBe('too_big');
+    expect(validate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createBrandedInterface — date, bigint and bytes fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const schema = {
+    createdAt: { type: 'date' },
+    balance: { type: 'bigint' },
+    avatar: { type: 'bytes' },
+  } as const;
+
+  it('accepts valid dates, bigints and Uint8Arrays', () => {
+    const def = createBrandedInterface('WireTypes', schema);
+    const createdAt = new Date('2024-05-01T12:00:00Z');
+    const avatar = new Uint8Array([1, 2, 3]);
+
+    const instance = def.create({ createdAt, balance: 10n, avatar });
+    expect(instance['createdAt']).toBe(createdAt);
+    expect(instance['balance']).toBe(10n);
+    expect(instance['avatar']).toBe(avatar);
+  });
+
+  it('rejects invalid dates and values of the wrong type', () => {
+    const def = createBrandedInterface<Record<string, unknown>>('WireTypesInvalid', schema);
+
+    const error = catchError(() =>
+      def.create(
+        { createdAt: new Date('nope'), balance: 10, avatar: [1, 2, 3] },
+        { collectAllErrors: true }
+      )
+    );
+    expect(error.issues.map((issue) => [issue.path, issue.expected, issue.actual])).toEqual([
+      [['createdAt'], 'date', 'invalid date'],
+      [['balance'], 'bigint', 'number'],
+      [['avatar'], 'bytes', 'array'],
+    ]);
+  });
+
+  it('coerces ISO, decimal and base64 strings', () => {
+    const def = createBrandedInterface<Record<string, unknown>>('WireTypesCoerce', schema, {
+      coerce: true,
+    });
+
+    const instance = def.create({
+      createdAt: '2024-05-01T12:00:00.000Z',
+      balance: ' -42 ',
+      avatar: 'AQID',
+    });
+    expect(instance['createdAt']).toEqual(new Date('2024-05-01T12:00:00.000Z'));
+    expect(instance['balance']).toBe(-42n);
+    expect(instance['avatar']).toEqual(new Uint8Array([1, 2, 3]));
+
+    expect(catchError(() => def.create({ ...instance, balance: '4.2' })).issues[0]).toMatchObject({
+      path: ['balance'],
+      code: 'type_mismatch',
+    });
+  });
+});
+
+describe('createBrandedInterface — tuple and record fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+    resetRegistry();
+  });
+
+  it('validates tuple elements by position', () => {
+    const def = createBrandedInterface('TuplePoint', {
+      point: { type: 'tuple', elements: [{ type: 'number' }, { type: 'number' }] },
+    });
+
+    expect(def.validate({ point: [1, 2] })).toBe(true);
+    const error = catchError(() => def.create({ point: [1, 'b'] } as Record<string, unknown>));
+    expect(error.issues[0]).toMatchObject({
+      path: ['point', 1],
+      code: 'type_mismatch',
+      expected: 'number',
+    });
+  });
+
+  it('reports tuples of the wrong length', () => {
+    const def = createBrandedInterface('TupleRange', {
+      range: {
+        type: 'tuple',
+        elements: [{ type: 'number' }, { type: 'number' }, { type: 'string', optional: true }],
+      },
+    });
+
+    expect(def.validate({ range: [1, 2] })).toBe(true);
+    expect(def.validate({ range: [1, 2, 'inclusive'] })).toBe(true);
+
+    expect(catchError(() => def.create({ range: [1] })).issues[0]).toMatchObject({
+      path: ['range'],
+      code: 'too_small',
+      expected: '2 elements',
+      actual: '1 elements',
+    });
+    const error = catchError(() => def.create({ range: [1, 2, 'x', 'y'] }));
+    expect(error.issues[0]).toMatchObject({ path: ['range'], code: 'too_big' });
+    expect(error.message).toBe(
+      'Field "range" expected at most 3 elements but got 4 in interface "TupleRange"'
+    );
+  });
+
+  it('validates elements past the positional ones against rest', () => {
+    const def = createBrandedInterface('TupleRest', {
+      row: { type: 'tuple', elements: [{ type: 'string' }], rest: { type: 'number' } },
+    });
+
+    expect(def.validate({ row: ['label'] })).toBe(true);
+    expect(def.validate({ row: ['label', 1, 2, 3] })).toBe(true);
+    expect(catchError(() => def.create({ row: ['label', 1, 'x'] })).issues[0]).toMatchObject({
+      path: ['row', 2],
+      code: 'type_mismatch',
+    });
+  });
+
+  it('fills in defaults of missing trailing tuple elements', () => {
+    const def = createBrandedInterface('TupleDefault', {
+      pair: { type: 'tuple', elements: [{ type: 'string' }, { type: 'number', default: 0 }] },
+    });
+
+    expect(def.create({ pair: ['a'] })['pair']).toEqual(['a', 0]);
+  });
+
+  it('validates record values and key patterns', () => {
+    const def = createBrandedInterface('RecordRates', {
+      rates: { type: 'record', keys: { pattern: '^[A-Z]{3}$' }, values: { type: 'number' } },
+    });
+
+    expect(def.validate({ rates: { USD: 1, EUR: 0.9 } })).toBe(true);
+
+    const error = catchError(() =>
+      def.create({ rates: { USD: 'one', eur: 0.9 } }, { collectAllErrors: true })
+    );
+    expect(error.issues).toEqual([
+      expect.objectContaining({ path: ['rates', 'USD'], code: 'type_mismatch' }),
+      {
+        path: ['rates', 'eur'],
+        code: 'invalid_key',
+        expected: '^[A-Z]{3}$',
+        actual: 'eur',
+        interfaceId: 'RecordRates',
+        message:
+          'Field "rates.eur" has a key not allowed by pattern /^[A-Z]{3}$/ in interface "RecordRates"',
+      },
+    ]);
+  });
+
+  it('restricts record keys to the values of a branded enum', () => {
+    createBrandedEnum('RecordLocale', { En: 'en', Fr: 'fr' } as const);
+    const def = createBrandedInterface('RecordLabels', {
+      labels: { type: 'record', keys: { ref: 'RecordLocale' }, values: { type: 'string' } },
+    });
+
+    expect(def.validate({ labels: { en: 'Hello', fr: 'Bonjour' } })).toBe(true);
+    expect(catchError(() => def.create({ labels: { de: 'Hallo' } })).issues[0]).toMatchObject({
+      path: ['labels', 'de'],
+      code: 'invalid_key',
+      expected: 'RecordLocale',
+    });
+
+    const missing = createBrandedInterface('RecordMissingKeys', {
+      labels: { type: 'record', keys: { ref: 'NoSuchLocale' } },
+    });
+    expect(catchError(() => missing.create({ labels: {} })).issues[0]).toMatchObject({
+      path: ['labels'],
+      code: 'ref_missing',
+    });
+  });
+
+  it('rejects non-object records and non-array tuples', () => {
+    const def = createBrandedInterface('RecordShape', {
+      map: { type: 'record', values: { type: 'string' } },
+      pair: { type: 'tuple', elements: [{ type: 'string' }] },
+    });
+
+    const error = catchError(() =>
+      def.create({ map: ['a'], pair: { 0: 'a' } }, { collectAllErrors: true })
+    );
+    expect(error.issues.map((issue) => [issue.path, issue.expected])).toEqual([
+      [['map'], 'record'],
+      [['pair'], 'tuple'],
+    ]);
+  });
+
+  it('coerces tuple strings and JSON record strings', () => {
+    const def = createBrandedInterface(
+      'TupleCoerce',
+      {
+        size: { type: 'tuple', elements: [{ type: 'number' }, { type: 'number' }] },
+        counts: { type: 'record', values: { type: 'number' } },
+      },
+      { coerce: true }
+    );
+
+    expect(def.create({ size: '640, 480', counts: '{"a": "1"}' })).toEqual({
+      size: [640, 480],
+      counts: { a: 1 },
+    });
+  });
+});
+
+describe('createBrandedInterface — updates', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const createCustomer = (options?: Parameters<typeof createBrandedInterface>[2]) => {
+    createBrandedInterface('UpdateAddress', {
+      street: { type: 'string' },
+      zip: { type: 'string', validate: (v) => /^\d{5}$/.test(String(v)) },
+    });
+    return createBrandedInterface(
+      'UpdateCustomer',
+      {
+        name: { type: 'string' },
+        age: { type: 'number' },
+        address: { type: 'branded-interface', ref: 'UpdateAddress' },
+        meta: { type: 'object', optional: true },
+      },
+      { autoBrand: true, ...options }
+    );
+  };
+
+  it('update() returns a new branded instance with the patch applied', () => {
+    const Customer = createCustomer();
+    const customer = Customer.create({
+      name: 'Ann',
+      age: 30,
+      address: { street: 'Main St', zip: '12345' },
+    });
+
+    const updated = Customer.update(customer, { age: 31 });
+    expect(updated).not.toBe(customer);
+    expect(updated).toEqual({ ...customer, age: 31 });
+    expect(customer['age']).toBe(30);
+    expect(updated[INTERFACE_ID]).toBe('UpdateCustomer');
+    expect(updated['address']).toBe(customer['address']);
+    expect(Object.isFrozen(updated)).toBe(true);
+  });
+
+  it('update() rejects invalid patches and foreign instances', () => {
+    const Customer = createCustomer();
+    const customer = Customer.create({
+      name: 'Ann',
+      age: 30,
+      address: { street: 'Main St', zip: '12345' },
+    });
+
+    expect(catchError(() => Customer.update(customer, { age: 'old' })).issues).toEqual([
+      expect.objectContaining({ path: ['age'], code: 'type_mismatch' }),
+    ]);
+    const plain = { ...customer } as typeof customer;
+    expect(() => Customer.update(plain, { age: 31 })).toThrow(
+      'update() expects an instance of interface "UpdateCustomer"'
+    );
+  });
+
+  it('update() runs refinements against the merged result', () => {
+    const Range = createBrandedInterface<{ min: number; max: number }>(
+      'UpdateRange',
+      { min: { type: 'number' }, max: { type: 'number' } },
+      {
+        refinements: [
+          (data, ctx) => {
+            if (data.max < data.min) ctx.addIssue({ path: ['max'], message: 'max < min' });
+          },
+        ],
+      }
+    );
+    const range = Range.create({ min: 1, max: 5 });
+
+    expect(Range.update(range, { max: 2 })).toEqual({ min: 1, max: 2 });
+    expect(catchError(() => Range.update(range, { min: 10 })).issues).toEqual([
+      expect.objectContaining({ path: ['max'], message: 'max < min' }),
+    ]);
+  });
+
+  it('update() applies the definition unknownKeys mode to patch keys', () => {
+    const Customer = createCustomer({ unknownKeys: 'strict' });
+    const customer = Customer.create({
+      name: 'Ann',
+      age: 30,
+      address: { street: 'Main St', zip: '12345' },
+    });
+
+    expect(
+      catchError(() => Customer.update(customer, { nickname: 'A' } as Record<string, unknown>))
+        .issues[0]
+    ).toMatchObject({ path: ['nickname'], code: 'unrecognized_key' });
+  });
+
+  it('setIn() replaces nested values and keeps nested instances branded', () => {
+    const Customer = createCustomer();
+    const customer = Customer.create({
+      name: 'Ann',
+      age: 30,
+      address: { street: 'Main St', zip: '12345' },
+      meta: { tags: ['a', 'b'] },
+    });
+
+    const moved = Customer.setIn(customer, ['address', 'zip'], '54321');
+    const address = moved['address'] as Record<string | symbol, unknown>;
+    expect(address['zip']).toBe('54321');
+    expect(address[INTERFACE_ID]).toBe('UpdateAddress');
+    expect(moved['meta']).toEqual(customer['meta']);
+
+    const tagged = Customer.setIn(customer, ['meta', 'tags', 1], 'c');
+    expect(tagged['meta']).toEqual({ tags: ['a', 'c'] });
+    expect(customer['meta']).toEqual({ tags: ['a', 'b'] });
+
+    const error = catchError(() => Customer.setIn(customer, ['address', 'zip'], 'abc'));
+    expect(error.interfaceId).toBe('UpdateCustomer');
+    expect(error.issues).toEqual([
+      expect.objectContaining({ path: ['address', 'zip'], interfaceId: 'UpdateAddress' }),
+    ]);
+    expect(() => Customer.setIn(customer, ['name', 'first'], 'A')).toThrow(
+      'Cannot set "name.first": "name" is not an object or array'
+    );
+  });
+
+  it('emits update events for every rebuilt instance', () => {
+    const Customer = createCustomer();
+    const customer = Customer.create({
+      name: 'Ann',
+      age: 30,
+      address: { street: 'Main St', zip: '12345' },
+    });
+    const Address = getInterfaceById('UpdateAddress')?.definition as BrandedInterfaceDefinition;
+    const events: string[] = [];
+    const record = (e: InterfaceAccessEvent) => events.push(`${e.interfaceId}:${e.eventType}`);
+    const watchers = [watchInterface(Customer, record), watchInterface(Address, record)];
+
+    Customer.setIn(customer, ['address', 'zip'], '54321');
+    watchers.forEach((w) => w.unwatch());
+    expect(events).toEqual(['UpdateAddress:update', 'UpdateCustomer:update']);
+  });
+});
+
+declare module '../types.js' {
+  interface InterfaceRefTypes {
+    InferColor: BrandedEnum<{ readonly Red: 'red'; readonly Blue: 'blue' }>;
+    InferAddress: BrandedInterfaceDefinition<{ zip: string }>;
+  }
+}
+
+describe('createBrandedInterface — schema inference', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+    resetRegistry();
+  });
+
+  const patientSchema = {
+    name: { type: 'string' },
+    nickname: { type: 'string', optional: true },
+    age: { type: 'number', nullable: true },
+    color: { type: 'branded-enum', ref: 'InferColor' },
+    address: { type: 'branded-interface', ref: 'InferAddress' },
+    tags: { type: 'array', items: { type: 'string' } },
+    relatives: { type: 'array', items: { type: 'branded-interface', ref: 'self' }, default: [] },
+  } as const;
+
+  it('types create() and validate() from an as-const schema', () => {
+    createBrandedEnum('InferColor', { Red: 'red', Blue: 'blue' } as const);
+    const Address = createBrandedInterface('InferAddress', { zip: { type: 'string' } } as const);
+    const Patient = createBrandedInterface('InferPatient', patientSchema);
+
+    const patient = Patient.create({
+      name: 'Ann',
+      age: null,
+      color: 'red',
+      address: Address.create({ zip: '12345' }),
+      tags: ['a'],
+    });
+    const name: string = patient.name;
+    const nickname: string | undefined = patient.nickname;
+    const age: number | null = patient.age;
+    const color: 'red' | 'blue' = patient.color;
+    const zip: string = patient.address.zip;
+    const relatives: ReadonlyArray<BrandedInstance<InferInstance<typeof patientSchema>>> =
+      patient.relatives ?? [];
+    expect([name, nickname, age, color, zip, relatives]).toEqual([
+      'Ann',
+      undefined,
+      null,
+      'red',
+      '12345',
+      [],
+    ]);
+
+    const input: unknown = { ...patient };
+    expect(Patient.validate(input) && input.tags.join()).toBe('a');
+    expect(() =>
+      // @ts-expect-error — 'green' is not a value of InferColor
+      Patient.create({ ...patient, color: 'green' })
+    ).toThrow(BrandedValidationError);
+  });
+
+  it('keeps Record<string, unknown> for schemas not declared as const', () => {
+    const schema: InterfaceSchema = { name: { type: 'string' } };
+    const inline = createBrandedInterface('InferInline', { name: { type: 'string' } });
+    const wide = createBrandedInterface('InferWide', schema);
+
+    const instances: Array<BrandedInstance<Record<string, unknown>>> = [
+      inline.create({ name: 'a' }),
+      wide.create({ name: 'b' }),
+    ];
+    expect(instances.map((instance) => instance['name'])).toEqual(['a', 'b']);
+  });
+});
+
+describe('createBrandedInterface — trusted branding', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  const schema: InterfaceSchema = {
+    name: { type: 'string', minLength: 1 },
+    tags: { type: 'array', items: { type: 'string' } },
+  };
+
+  it('brandTrusted() brands and freezes data without validating it', () => {
+    let calls = 0;
+    const def = createBrandedInterface('TrustedUser', {
+      ...schema,
+      age: {
+        type: 'number',
+        validate: () => {
+          calls++;
+          return false;
+        },
+      },
+    });
+    const input = { name: '', tags: ['a'], age: 30 };
+
+    const instance = def.brandTrusted(input);
+
+    expect(calls).toBe(0);
+    expect(instance).toEqual(input);
+    expect(instance).not.toBe(input);
+    expect(instance[INTERFACE_ID]).toBe('TrustedUser');
+    expect(Object.isFrozen(instance)).toBe(true);
+    expect(Object.isFrozen(instance['tags'])).toBe(true);
+  });
+
+  it('brandTrusted() rejects values that are not plain objects', () => {
+    const def = createBrandedInterface('TrustedReject', schema);
+
+    expect(() => def.brandTrusted(null as unknown as Record<string, unknown>)).toThrow(
+      'brandTrusted() expects a plain object for interface "TrustedReject"'
+    );
+  });
+
+  it('emits trusted events', () => {
+    const def = createBrandedInterface('TrustedEvents', schema);
+    const events: string[] = [];
+    const watcher = watchInterface(def, (e) => events.push(e.eventType));
+
+    def.create({ name: 'a', tags: [] });
+    def.brandTrusted({ name: 'b', tags: [] });
+    watcher.unwatch();
+    expect(events).toEqual(['create', 'trusted']);
+  });
+
+  it('validates sampled calls in development', () => {
+    const def = createBrandedInterface('TrustedSampled', schema, { trustedSampleRate: 1 });
+
+    expect(def.brandTrusted({ name: 'a', tags: [] })['name']).toBe('a');
+    expect(() => def.brandTrusted({ name: '', tags: [1] })).toThrow(BrandedValidationError);
+  });
+
+  it('never samples in production', () => {
+    const previous = process.env['NODE_ENV'];
+    process.env['NODE_ENV'] = 'production';
+    try {
+      const def = createBrandedInterface('TrustedProd', schema, { trustedSampleRate: 1 });
+      expect(def.brandTrusted({ name: '', tags: [] })['name']).toBe('');
+    } finally {
+      process.env['NODE_ENV'] = previous;
+    }
+  });
+});
+
 // =============================================================================
 // Unit Tests for createBrandedPrimitive
 // =============================================================================
@@ -9,9 +9,17 @@
 
 import * as fc from 'fast-check';
 import { createBrandedInterface, createBrandedPrimitive } from '../factory.js';
+import { createInterfaceUnion } from '../compose.js';
 import { resetInterfaceRegistry } from '../registry.js';
-import { isOfInterface, assertOfInterface, safeParseInterface, isOfPrimitive } from '../guards.js';
-import { INTERFACE_ID } from '../types.js';
+import {
+  isOfInterface,
+  assertOfInterface,
+  safeParseInterface,
+  safeParseInterfaceAsync,
+  isOfPrimitive,
+  isInterfaceUnion,
+} from '../guards.js';
+import { INTERFACE_ID, BrandedInstance, BrandedPrimitiveValue } from '../types.js';
 import {
   arbUniqueId,
   arbInterfaceSchema,
@@ -513,6 +521,222 @@ describe('Unit Tests: Guards', () => {
     });
   });
 
+  describe('safeParseInterface — defaults', () => {
+    it('applies field defaults before validating', () => {
+      const def = createBrandedInterface('UnitSafeDefault', {
+        name: { type: 'string' as const },
+        role: { type: 'string' as const, default: 'member' },
+      });
+      const result = safeParseInterface({ name: 'Eve' }, def);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value['role']).toBe('member');
+      }
+    });
+  });
+
+  describe('safeParseInterface — collect-all errors', () => {
+    const tagSchema = {
+      name: { type: 'string' as const },
+      age: { type: 'number' as const },
+      tags: { type: 'array' as const, items: { type: 'string' as const } },
+    };
+
+    it('reports only the first failing field by default', () => {
+      const def = createBrandedInterface('UnitCollect1', tagSchema);
+      const result = safeParseInterface({ name: 1, age: 'x', tags: ['a', 2] }, def);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.fieldErrors).toHaveLength(1);
+        expect(result.error.fieldErrors?.[0].field).toBe('name');
+      }
+    });
+
+    it('reports every failing field and array item when requested per call', () => {
+      const def = createBrandedInterface('UnitCollect2', tagSchema);
+      const result = safeParseInterface({ name: 1, age: 'x', tags: ['a', 2, false] }, def, {
+        collectAllErrors: true,
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('FIELD_VALIDATION_FAILED');
+        expect(result.error.fieldErrors?.map((e) => e.field)).toEqual([
+          'name',
+          'age',
+          'tags[1]',
+          'tags[2]',
+        ]);
+        expect(result.error.fieldErrors?.[1].message).toMatch(/^Field "age" expected type "number"/);
+      }
+    });
+
+    it('uses the definition-level collectAllErrors default', () => {
+      const def = createBrandedInterface('UnitCollect3', tagSchema, { collectAllErrors: true });
+      const result = safeParseInterface({ tags: [] }, def);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.fieldErrors?.map((e) => e.field)).toEqual(['name', 'age']);
+      }
+    });
+
+    it('reports refinement issues alongside field errors', () => {
+      const def = createBrandedInterface(
+        'UnitRefine1',
+        { password: { type: 'string' }, confirmPassword: { type: 'string' } },
+        {
+          refinements: [
+            (data, ctx) => {
+              if (data['password'] !== data['confirmPassword']) {
+                ctx.addIssue({ path: ['confirmPassword'], message: 'Passwords do not match' });
+              }
+            },
+          ],
+        }
+      );
+      const result = safeParseInterface({ password: 'a', confirmPassword: 'b' }, def);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('FIELD_VALIDATION_FAILED');
+        expect(result.error.fieldErrors).toEqual([
+          { field: 'confirmPassword', message: 'Passwords do not match' },
+        ]);
+        expect(result.error.issues?.[0].code).toBe('custom');
+      }
+    });
+
+    it('coerces loosely typed input when coerce is enabled', () => {
+      const def = createBrandedInterface('UnitCoerce1', tagSchema);
+      const input = { name: 'a', age: '30', tags: 'x,y' };
+
+      expect(safeParseInterface(input, def).success).toBe(false);
+
+      const result = safeParseInterface(input, def, { coerce: true });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toEqual({ name: 'a', age: 30, tags: ['x', 'y'] });
+      }
+    });
+
+    it('reports field errors for values that cannot be coerced', () => {
+      const def = createBrandedInterface('UnitCoerce2', tagSchema);
+      const result = safeParseInterface({ name: 'a', age: 'old', tags: 'z' }, def, { coerce: true });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('FIELD_VALIDATION_FAILED');
+        expect(result.error.fieldErrors?.map((e) => e.field)).toEqual(['age']);
+      }
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // safeParseInterfaceAsync
+  // ---------------------------------------------------------------------------
+
+  describe('safeParseInterfaceAsync', () => {
+    const defineUser = (id: string) =>
+      createBrandedInterface(id, {
+        username: { type: 'string', validateAsync: async (v) => v !== 'taken' },
+        age: { type: 'number' },
+      });
+
+    it('returns success with a branded instance', async () => {
+      const def = defineUser('UnitAsync1');
+      const result = await safeParseInterfaceAsync({ username: 'free', age: 3 }, def);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value[INTERFACE_ID]).toBe('UnitAsync1');
+      }
+    });
+
+    it('returns field errors from async validators', async () => {
+      const def = defineUser('UnitAsync2');
+      const result = await safeParseInterfaceAsync({ username: 'taken', age: 3 }, def);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('FIELD_VALIDATION_FAILED');
+        expect(result.error.fieldErrors?.map((e) => e.field)).toEqual(['username']);
+        expect(result.error.issues?.[0].code).toBe('custom');
+      }
+    });
+
+    it('performs the same input checks as safeParseInterface', async () => {
+      const def = defineUser('UnitAsync3');
+      const result = await safeParseInterfaceAsync('nope', def);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_VALUE_TYPE');
+      }
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Interface unions
+  // ---------------------------------------------------------------------------
+
+  describe('interface unions', () => {
+    function defineEvent(prefix: string) {
+      const Created = createBrandedInterface(`${prefix}Created`, {
+        type: { type: 'string' },
+        id: { type: 'number' },
+      });
+      const Deleted = createBrandedInterface(`${prefix}Deleted`, {
+        type: { type: 'string' },
+        reason: { type: 'string' },
+      });
+      const Other = createBrandedInterface(`${prefix}Other`, { type: { type: 'string' } });
+      return {
+        Event: createInterfaceUnion(`${prefix}Event`, 'type', { created: Created, deleted: Deleted }),
+        Created,
+        Other,
+      };
+    }
+
+    it('isOfInterface and assertOfInterface accept instances of any member', () => {
+      const { Event, Created, Other } = defineEvent('UnitUnion1');
+      const created = Created.create({ type: 'created', id: 1 });
+      const other = Other.create({ type: 'other' });
+
+      expect(isOfInterface(created, Event)).toBe(true);
+      expect(isOfInterface(other, Event)).toBe(false);
+      expect(assertOfInterface(created, Event)).toBe(created);
+      expect(() => assertOfInterface(other, Event)).toThrow(
+        'Value is not a branded instance of union "UnitUnion1Event"'
+      );
+    });
+
+    it('safeParseInterface selects the member by discriminator', () => {
+      const { Event } = defineEvent('UnitUnion2');
+
+      const result = safeParseInterface({ type: 'deleted', reason: 'spam' }, Event);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value[INTERFACE_ID]).toBe('UnitUnion2Deleted');
+      }
+    });
+
+    it('safeParseInterface reports discriminator and member field errors', () => {
+      const { Event } = defineEvent('UnitUnion3');
+
+      const unknown = safeParseInterface({ type: 'updated' }, Event);
+      const invalid = safeParseInterface({ type: 'created', id: 'x' }, Event);
+
+      expect(unknown.success).toBe(false);
+      expect(invalid.success).toBe(false);
+      if (!unknown.success && !invalid.success) {
+        expect(unknown.error.fieldErrors?.map((e) => e.field)).toEqual(['type']);
+        expect(unknown.error.issues?.[0].code).toBe('invalid_discriminator');
+        expect(invalid.error.fieldErrors?.map((e) => e.field)).toEqual(['id']);
+      }
+    });
+
+    it('isInterfaceUnion distinguishes unions from interface definitions', () => {
+      const { Event, Created } = defineEvent('UnitUnion4');
+      expect(isInterfaceUnion(Event)).toBe(true);
+      expect(isInterfaceUnion(Created)).toBe(false);
+      expect(isInterfaceUnion(null)).toBe(false);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // isOfPrimitive
   // ---------------------------------------------------------------------------
@@ -534,3 +758,48 @@ describe('Unit Tests: Guards', () => {
     });
   });
 });
+
+describe('Unit Tests: literal ID types', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  type UserRef = BrandedInstance<{ id: string }, 'NominalUserRef'>;
+
+  it('keeps instances of structurally identical interfaces apart', () => {
+    const UserRef = createBrandedInterface('NominalUserRef', { id: { type: 'string' } } as const);
+    const OrderRef = createBrandedInterface('NominalOrderRef', { id: { type: 'string' } } as const);
+    const loadUser = (ref: UserRef): string => ref.id;
+
+    const user = UserRef.create({ id: 'u1' });
+    const order = OrderRef.create({ id: 'o1' });
+    const id: 'NominalUserRef' = UserRef.id;
+    expect(user[INTERFACE_ID]).toBe(id);
+    expect(loadUser(user)).toBe('u1');
+    // @ts-expect-error — an OrderRef is not a UserRef
+    expect(loadUser(order)).toBe('o1');
+
+    const value: unknown = user;
+    expect(isOfInterface(value, UserRef) && loadUser(value)).toBe('u1');
+    expect(loadUser(assertOfInterface(value, UserRef))).toBe('u1');
+    const parsed = safeParseInterface({ id: 'u2' }, UserRef);
+    expect(parsed.success && loadUser(parsed.value)).toBe('u2');
+  });
+
+  it('keeps values of different branded primitives apart', () => {
+    const Email = createBrandedPrimitive('NominalEmail', 'string', (v) => v.includes('@'));
+    const Uuid = createBrandedPrimitive('NominalUuid', 'string', (v) => /^[0-9a-f-]{36}$/.test(v));
+    const send = (to: BrandedPrimitiveValue<string, 'NominalEmail'>): string => to;
+
+    const email = Email.create('ann@example.com');
+    const uuid = Uuid.create('8f14e45f-ceea-467f-a0f6-6f5d3c8a1b2c');
+    expect(send(email)).toBe('ann@example.com');
+    // @ts-expect-error — a Uuid is not an Email
+    expect(send(uuid)).toBe(uuid);
+    // @ts-expect-error — plain strings must go through Email.create() or isOfPrimitive()
+    expect(send('bob@example.com')).toBe('bob@example.com');
+
+    const value: unknown = 'bob@example.com';
+    expect(isOfPrimitive(value, Email) && send(value)).toBe('bob@example.com');
+  });
+});
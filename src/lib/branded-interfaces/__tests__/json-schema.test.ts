@@ -5,7 +5,9 @@
  * Tests: interfaceToJsonSchema()
  */
 
-import { interfaceToJsonSchema } from '../json-schema.js';
+import { interfaceToJsonSchema, interfaceUnionToJsonSchema } from '../json-schema.js';
+import { interfaceToZodSchema } from '../zod-schema.js';
+import { createInterfaceUnion } from '../compose.js';
 import { createBrandedInterface } from '../factory.js';
 import { resetInterfaceRegistry } from '../registry.js';
 import { createBrandedEnum } from '../../factory.js';
@@ -38,7 +40,7 @@ describe('interfaceToJsonSchema — unit tests', () => {
     expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
     expect(schema.type).toBe('object');
     expect(schema.title).toBe('SimpleUser');
-    expect(schema.additionalProperties).toBe(false);
+    expect(schema.additionalProperties).toBe(true);
     expect(schema.properties).toBeDefined();
     expect(schema.required).toBeDefined();
   });
@@ -311,6 +313,90 @@ describe('interfaceToJsonSchema — unit tests', () => {
     expect(schema.properties['email']).toEqual({ type: ['string', 'null'], format: 'email' });
   });
 
+  it('emits nested properties and required for object fields with an inline schema', () => {
+    const def = createBrandedInterface('NestedAddressOwner', {
+      address: {
+        type: 'object',
+        properties: {
+          street: { type: 'string' },
+          zip: { type: 'string', optional: true },
+        },
+      },
+      meta: {
+        type: 'object',
+        nullable: true,
+        strict: true,
+        properties: { note: { type: 'string' } },
+      },
+    });
+
+    const schema = interfaceToJsonSchema(def);
+
+    expect(schema.properties['address']).toEqual({
+      type: 'object',
+      properties: { street: { type: 'string' }, zip: { type: 'string' } },
+      required: ['street'],
+    });
+    expect(schema.properties['meta']).toEqual({
+      type: ['object', 'null'],
+      properties: { note: { type: 'string' } },
+      required: ['note'],
+      additionalProperties: false,
+    });
+  });
+
+  it('reflects the unknownKeys mode in additionalProperties', () => {
+    const schema = { name: { type: 'string' as const } };
+
+    expect(interfaceToJsonSchema(createBrandedInterface('JsonKeysDefault', schema)).additionalProperties).toBe(true);
+    expect(
+      interfaceToJsonSchema(createBrandedInterface('JsonKeysPass', schema, { unknownKeys: 'passthrough' }))
+        .additionalProperties
+    ).toBe(true);
+    expect(
+      interfaceToJsonSchema(createBrandedInterface('JsonKeysStrip', schema, { unknownKeys: 'strip' }))
+        .additionalProperties
+    ).toBe(true);
+    expect(
+      interfaceToJsonSchema(createBrandedInterface('JsonKeysStrict', schema, { unknownKeys: 'strict' }))
+        .additionalProperties
+    ).toBe(false);
+  });
+
+  it('agrees with create() and the Zod generator on extra properties', () => {
+    const schema = { name: { type: 'string' as const } };
+    const modes = [undefined, 'passthrough', 'strip', 'strict'] as const;
+
+    modes.forEach((unknownKeys, i) => {
+      const def = createBrandedInterface(`JsonKeysAgree${i}`, schema, { unknownKeys });
+      const accepted = (() => {
+        try {
+          def.create({ name: 'a', extra: 1 });
+          return true;
+        } catch {
+          return false;
+        }
+      })();
+
+      expect(interfaceToJsonSchema(def).additionalProperties).toBe(accepted);
+      expect(interfaceToZodSchema(def).unknownKeys === 'strict').toBe(!accepted);
+    });
+  });
+
+  it('emits static defaults and does not require defaulted fields', () => {
+    const def = createBrandedInterface('JsonDefaults', {
+      name: { type: 'string' },
+      status: { type: 'string', default: 'pending' },
+      createdAt: { type: 'number', default: () => Date.now() },
+    });
+
+    const schema = interfaceToJsonSchema(def);
+
+    expect(schema.properties['status']).toEqual({ type: 'string', default: 'pending' });
+    expect(schema.properties['createdAt']).toEqual({ type: 'number' });
+    expect(schema.required).toEqual(['name']);
+  });
+
   it('handles empty schema', () => {
     const def = createBrandedInterface('EmptySchema', {} as InterfaceSchema);
 
@@ -451,3 +537,239 @@ describe('Feature: branded-interfaces, Property 28: JSON Schema enum references'
     );
   });
 });
+
+// =============================================================================
+// Unit Tests for interfaceUnionToJsonSchema
+// =============================================================================
+
+describe('interfaceToJsonSchema — union and literal fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('emits const for literals and anyOf for unions', () => {
+    const def = createBrandedInterface('JsonLitUnion', {
+      kind: { type: 'literal', value: 'v2' },
+      level: { type: 'literal', value: 3, nullable: true },
+      id: { type: 'union', members: [{ type: 'string' }, { type: 'number' }], nullable: true },
+    });
+
+    expect(interfaceToJsonSchema(def).properties).toEqual({
+      kind: { const: 'v2' },
+      level: { enum: [3, null] },
+      id: { anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }] },
+    });
+  });
+});
+
+describe('interfaceToJsonSchema — interface refs and recursion', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('emits $ref "#" for self refs', () => {
+    const Tree = createBrandedInterface('JsonTree', {
+      name: { type: 'string' },
+      children: { type: 'array', items: { type: 'branded-interface', ref: 'self' } },
+      parent: { type: 'branded-interface', ref: 'self', nullable: true },
+    });
+
+    const schema = interfaceToJsonSchema(Tree);
+
+    expect(schema.properties['parent']).toEqual({ anyOf: [{ $ref: '#' }, { type: 'null' }] });
+    expect(schema.$defs).toBeUndefined();
+  });
+
+  it('emits referenced interfaces once under $defs, including mutual recursion', () => {
+    createBrandedInterface('JsonThread', {
+      comments: { type: 'array', items: { type: 'branded-interface', ref: 'JsonComment' } },
+      pinned: { type: 'branded-interface', ref: 'JsonComment', optional: true },
+    });
+    const Comment = createBrandedInterface('JsonComment', {
+      text: { type: 'string' },
+      thread: { type: 'branded-interface', ref: 'JsonThread' },
+      replyTo: { type: 'branded-interface', ref: 'self', optional: true },
+    });
+
+    const schema = interfaceToJsonSchema(Comment);
+
+    expect(schema.properties['thread']).toEqual({ $ref: '#/$defs/JsonThread' });
+    expect(schema.properties['replyTo']).toEqual({ $ref: '#' });
+    expect(schema.$defs).toEqual({
+      JsonThread: {
+        type: 'object',
+        title: 'JsonThread',
+        properties: {
+          comments: { type: 'array' },
+          pinned: { $ref: '#' },
+        },
+        required: ['comments'],
+        additionalProperties: true,
+      },
+    });
+  });
+
+  it('uses definitions under draft 07', () => {
+    createBrandedInterface('JsonAddress07', { city: { type: 'string' } });
+    const def = createBrandedInterface('JsonPerson07', {
+      home: { type: 'branded-interface', ref: 'JsonAddress07' },
+    });
+
+    const schema = interfaceToJsonSchema(def, { draft: '07' });
+
+    expect(schema.properties['home']).toEqual({ $ref: '#/definitions/JsonAddress07' });
+    expect(Object.keys(schema.definitions ?? {})).toEqual(['JsonAddress07']);
+    expect(schema.$defs).toBeUndefined();
+  });
+});
+
+describe('interfaceToJsonSchema — declarative constraints', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('emits string, number and array constraint keywords', () => {
+    const def = createBrandedInterface('JsonConstraints', {
+      username: { type: 'string', minLength: 3, maxLength: 8, pattern: '^[a-z]+$' },
+      age: { type: 'number', min: 0, max: 150, integer: true, nullable: true },
+      score: { type: 'number', min: 0.5 },
+      tags: { type: 'array', minItems: 1, maxItems: 3, uniqueItems: true },
+    });
+
+    expect(interfaceToJsonSchema(def).properties).toEqual({
+      username: { type: 'string', minLength: 3, maxLength: 8, pattern: '^[a-z]+$' },
+      age: { type: ['integer', 'null'], minimum: 0, maximum: 150 },
+      score: { type: 'number', minimum: 0.5 },
+      tags: { type: 'array', minItems: 1, maxItems: 3, uniqueItems: true },
+    });
+  });
+});
+
+describe('interfaceToJsonSchema — date, bigint and bytes fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('describes the serializer wire encodings as strings', () => {
+    const def = createBrandedInterface('JsonWire', {
+      createdAt: { type: 'date' },
+      balance: { type: 'bigint', nullable: true },
+      avatar: { type: 'bytes' },
+    });
+
+    expect(interfaceToJsonSchema(def).properties).toEqual({
+      createdAt: { type: 'string', format: 'date-time' },
+      balance: { type: ['string', 'null'], pattern: '^[-+]?\\d+$' },
+      avatar: { type: 'string', contentEncoding: 'base64' },
+    });
+  });
+});
+
+describe('interfaceToJsonSchema — tuple and record fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+    resetRegistry();
+  });
+
+  const schema: InterfaceSchema = {
+    range: {
+      type: 'tuple',
+      elements: [{ type: 'number' }, { type: 'number' }, { type: 'string', optional: true }],
+    },
+    row: { type: 'tuple', elements: [{ type: 'string' }], rest: { type: 'number' } },
+  };
+
+  it('emits prefixItems for tuples under draft 2020-12', () => {
+    const def = createBrandedInterface('JsonTuple', schema);
+
+    expect(interfaceToJsonSchema(def).properties).toEqual({
+      range: {
+        type: 'array',
+        prefixItems: [{ type: 'number' }, { type: 'number' }, { type: 'string' }],
+        items: false,
+        minItems: 2,
+      },
+      row: {
+        type: 'array',
+        prefixItems: [{ type: 'string' }],
+        items: { type: 'number' },
+        minItems: 1,
+      },
+    });
+  });
+
+  it('emits array-form items and additionalItems for tuples under draft 07', () => {
+    const def = createBrandedInterface('JsonTuple07', schema);
+
+    expect(interfaceToJsonSchema(def, { draft: '07' }).properties['row']).toEqual({
+      type: 'array',
+      items: [{ type: 'string' }],
+      additionalItems: { type: 'number' },
+      minItems: 1,
+    });
+  });
+
+  it('emits propertyNames and additionalProperties for records', () => {
+    createBrandedEnum('JsonRecordLocale', { En: 'en', Fr: 'fr' } as const);
+    const def = createBrandedInterface('JsonRecord', {
+      rates: { type: 'record', keys: { pattern: '^[A-Z]{3}$' }, values: { type: 'number' } },
+      labels: { type: 'record', keys: { ref: 'JsonRecordLocale' }, values: { type: 'string' } },
+      extra: { type: 'record', nullable: true },
+    });
+
+    expect(interfaceToJsonSchema(def).properties).toEqual({
+      rates: {
+        type: 'object',
+        propertyNames: { pattern: '^[A-Z]{3}$' },
+        additionalProperties: { type: 'number' },
+      },
+      labels: {
+        type: 'object',
+        propertyNames: { enum: ['en', 'fr'] },
+        additionalProperties: { type: 'string' },
+      },
+      extra: { type: ['object', 'null'] },
+    });
+  });
+});
+
+describe('interfaceUnionToJsonSchema — unit tests', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('emits oneOf member schemas with const discriminators', () => {
+    const Card = createBrandedInterface('JsonUnionCard', {
+      method: { type: 'string' },
+      last4: { type: 'string' },
+    });
+    const Bank = createBrandedInterface(
+      'JsonUnionBank',
+      { method: { type: 'string', optional: true }, iban: { type: 'string' } },
+      { unknownKeys: 'strict' }
+    );
+    const union = createInterfaceUnion('JsonUnionPayment', 'method', { card: Card, bank: Bank });
+
+    expect(interfaceUnionToJsonSchema(union, { draft: '07' })).toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      title: 'JsonUnionPayment',
+      oneOf: [
+        {
+          type: 'object',
+          title: 'JsonUnionCard',
+          properties: { method: { type: 'string', const: 'card' }, last4: { type: 'string' } },
+          required: ['method', 'last4'],
+          additionalProperties: true,
+        },
+        {
+          type: 'object',
+          title: 'JsonUnionBank',
+          properties: { method: { type: 'string', const: 'bank' }, iban: { type: 'string' } },
+          required: ['iban', 'method'],
+          additionalProperties: false,
+        },
+      ],
+      discriminator: { propertyName: 'method' },
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { createBrandedInterface } from '../factory.js';
+import { produce } from '../produce.js';
+import { resetInterfaceRegistry } from '../registry.js';
+import { INTERFACE_ID, BrandedInstance, InterfaceSafeParseResult } from '../types.js';
+
+interface Address extends Record<string, unknown> {
+  street: string;
+  zip: string;
+}
+
+interface Patient extends Record<string, unknown> {
+  name: string;
+  tags: string[];
+  address: Address;
+  contacts: Array<{ kind: string; value: string }>;
+  notes?: string;
+}
+
+beforeEach(() => {
+  resetInterfaceRegistry();
+});
+
+function setup() {
+  createBrandedInterface<Address>('ProduceAddress', {
+    street: { type: 'string' },
+    zip: { type: 'string', pattern: '^\\d{5}$' },
+  });
+  const Patient = createBrandedInterface<Patient>(
+    'ProducePatient',
+    {
+      name: { type: 'string', minLength: 1 },
+      tags: { type: 'array', items: { type: 'string' } },
+      address: { type: 'branded-interface', ref: 'ProduceAddress' },
+      contacts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { kind: { type: 'string' }, value: { type: 'string' } },
+        },
+      },
+      notes: { type: 'string', optional: true },
+    },
+    { autoBrand: true }
+  );
+  const patient = Patient.create({
+    name: ' ann ',
+    tags: ['a'],
+    address: { street: 'Main St', zip: '12345' },
+    contacts: [{ kind: 'email', value: 'ANN@EXAMPLE.COM' }],
+    notes: 'first visit',
+  });
+  return { Patient, patient };
+}
+
+function expectSuccess<T extends Record<string, unknown>>(
+  result: InterfaceSafeParseResult<BrandedInstance<T>>
+): BrandedInstance<T> {
+  if (!result.success) {
+    throw new Error(`expected success: ${result.error.message}`);
+  }
+  return result.value;
+}
+
+describe('produce — edits', () => {
+  it('applies nested edits and returns a new branded instance', () => {
+    const { patient } = setup();
+
+    const next = expectSuccess(
+      produce(patient, (draft) => {
+        draft.name = draft.name.trim().toUpperCase();
+        draft.tags.push('b');
+        draft.contacts[0].value = draft.contacts[0].value.toLowerCase();
+        delete draft.notes;
+      })
+    );
+
+    expect(next).toEqual({
+      name: 'ANN',
+      tags: ['a', 'b'],
+      address: { street: 'Main St', zip: '12345' },
+      contacts: [{ kind: 'email', value: 'ann@example.com' }],
+    });
+    expect(next[INTERFACE_ID]).toBe('ProducePatient');
+    expect(Object.isFrozen(next)).toBe(true);
+  });
+
+  it('leaves the original instance untouched and shares unchanged fields', () => {
+    const { patient } = setup();
+    const snapshot = JSON.stringify(patient);
+
+    const next = expectSuccess(
+      produce(patient, (draft) => {
+        draft.tags.push('b');
+      })
+    );
+
+    expect(JSON.stringify(patient)).toBe(snapshot);
+    expect(next.address).toBe(patient.address);
+    expect(next.tags).not.toBe(patient.tags);
+  });
+
+  it('returns the original instance when the recipe changes nothing', () => {
+    const { patient } = setup();
+
+    const result = produce(patient, (draft) => {
+      void draft.address.zip;
+    });
+
+    expect(result).toEqual({ success: true, value: patient });
+    expect(expectSuccess(result)).toBe(patient);
+  });
+
+  it('re-validates and re-brands edited nested instances', () => {
+    const { patient } = setup();
+
+    const next = expectSuccess(
+      produce(patient, (draft) => {
+        draft.address.zip = '54321';
+      })
+    );
+
+    const address = next.address as BrandedInstance<Address>;
+    expect(address.zip).toBe('54321');
+    expect(address[INTERFACE_ID]).toBe('ProduceAddress');
+  });
+
+  it('resolves drafts inside values built from other drafts', () => {
+    const { patient } = setup();
+
+    const next = expectSuccess(
+      produce(patient, (draft) => {
+        draft.contacts[0].kind = 'work';
+        draft.contacts = [...draft.contacts, { kind: 'phone', value: '555' }];
+      })
+    );
+
+    expect(next.contacts).toEqual([
+      { kind: 'work', value: 'ANN@EXAMPLE.COM' },
+      { kind: 'phone', value: '555' },
+    ]);
+  });
+});
+
+describe('produce — failures', () => {
+  it('returns a structured failure when the result is invalid', () => {
+    const { patient } = setup();
+
+    const result = produce(
+      patient,
+      (draft) => {
+        draft.name = '';
+        draft.address.zip = 'abc';
+      },
+      { collectAllErrors: true }
+    );
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe('FIELD_VALIDATION_FAILED');
+    expect(result.error.interfaceId).toBe('ProducePatient');
+    expect(result.error.issues?.map((issue) => issue.path)).toEqual([
+      ['name'],
+      ['address', 'zip'],
+    ]);
+    expect(result.error.fieldErrors?.map((e) => e.field)).toEqual(['name', 'address.zip']);
+    expect(patient.name).toBe(' ann ');
+  });
+
+  it('reports removed required fields', () => {
+    const { patient } = setup();
+
+    const result = produce(patient, (draft) => {
+      delete (draft as Partial<Patient>).name;
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.issues?.[0]).toMatchObject({ path: ['name'], code: 'required' });
+  });
+
+  it('rejects values that are not branded instances', () => {
+    const result = produce({ name: 'x' } as unknown as BrandedInstance<{ name: string }>, () => {
+      // no edits
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.code).toBe('NOT_BRANDED_INSTANCE');
+  });
+
+  it('propagates errors thrown by the recipe and revokes drafts afterwards', () => {
+    const { patient } = setup();
+    let leaked: { name: string } | undefined;
+
+    expect(() =>
+      produce(patient, (draft) => {
+        leaked = draft;
+        throw new Error('recipe failed');
+      })
+    ).toThrow('recipe failed');
+    expect(() => leaked?.name).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,154 @@
+import { createBrandedInterface, createBrandedPrimitive } from '../factory.js';
+import { BrandedValidationError } from '../errors.js';
+import { createOpaqueType } from '../opaque.js';
+import { resetInterfaceRegistry } from '../registry.js';
+import { t } from '../schema-dsl.js';
+import { BrandedInstance, BrandedPrimitiveValue, InferSchemaFields, OpaqueValue } from '../types.js';
+import { createBrandedEnum } from '../../factory.js';
+import { resetRegistry } from '../../registry.js';
+
+beforeEach(() => {
+  resetInterfaceRegistry();
+  resetRegistry();
+});
+
+describe('t — descriptors', () => {
+  it('builds ordinary field descriptors', () => {
+    expect(t.string().min(1).max(5).pattern(/^[a-z]+$/i).descriptor).toEqual({
+      type: 'string',
+      minLength: 1,
+      maxLength: 5,
+      pattern: '^[a-z]+$',
+    });
+    expect(t.number().int().min(0).optional().descriptor).toEqual({
+      type: 'number',
+      integer: true,
+      min: 0,
+      optional: true,
+    });
+    expect(t.array(t.string().nullable()).min(1).unique().descriptor).toEqual({
+      type: 'array',
+      items: { type: 'string', nullable: true },
+      minItems: 1,
+      uniqueItems: true,
+    });
+    expect(t.union(t.literal('a'), t.tuple([t.number(), t.bytes()])).descriptor).toEqual({
+      type: 'union',
+      members: [
+        { type: 'literal', value: 'a' },
+        { type: 'tuple', elements: [{ type: 'number' }, { type: 'bytes' }] },
+      ],
+    });
+    expect(t.schema({ meta: t.object(), scores: t.record(t.number()).default({}) })).toEqual({
+      meta: { type: 'object' },
+      scores: { type: 'record', values: { type: 'number' }, default: {} },
+    });
+  });
+
+  it('returns new immutable fields from every method', () => {
+    const base = t.string();
+    const optional = base.optional();
+
+    expect(base.descriptor).toEqual({ type: 'string' });
+    expect(optional).not.toBe(base);
+    expect(Object.isFrozen(base)).toBe(true);
+    expect(Object.isFrozen(optional.descriptor)).toBe(true);
+  });
+
+  it('takes refs from definition objects', () => {
+    const Status = createBrandedEnum('DslStatus', { Active: 'active' } as const);
+    const Address = createBrandedInterface('DslAddress', t.schema({ zip: t.string() }));
+    const Email = createBrandedPrimitive('DslEmail', 'string');
+    const Token = createOpaqueType<string>('DslToken', 'string');
+
+    expect(t.enum(Status).descriptor).toEqual({ type: 'branded-enum', ref: 'DslStatus' });
+    expect(t.ref(Address).descriptor).toEqual({ type: 'branded-interface', ref: 'DslAddress' });
+    expect(t.primitive(Email).descriptor).toEqual({ type: 'branded-primitive', ref: 'DslEmail' });
+    expect(t.opaque(Token).descriptor).toEqual({ type: 'branded-opaque', ref: 'DslToken' });
+  });
+
+  it('rejects values that are not branded enums', () => {
+    // @ts-expect-error — plain objects are not branded enums
+    expect(() => t.enum({ Active: 'active' })).toThrow('t.enum() expects a branded enum');
+  });
+});
+
+describe('t — inference', () => {
+  function setup() {
+    const Status = createBrandedEnum('DslStatus', { Active: 'active', Archived: 'archived' } as const);
+    const Address = createBrandedInterface('DslAddress', t.schema({ zip: t.string() }));
+    const Email = createBrandedPrimitive('DslEmail', 'string', (v) => v.includes('@'));
+    const Token = createOpaqueType<string>('DslToken', 'string');
+    const Patient = createBrandedInterface(
+      'DslPatient',
+      t.schema({
+        name: t.string().min(1),
+        age: t.number().int().nullable(),
+        status: t.enum(Status),
+        address: t.ref(Address),
+        email: t.primitive(Email).optional(),
+        token: t.opaque(Token).optional(),
+        tags: t.array(t.string()).default([]),
+        meta: t.object({ source: t.literal('web'), notes: t.string().optional() }),
+      })
+    );
+    return { Address, Email, Token, Patient };
+  }
+
+  it('types instances from the fields', () => {
+    const { Address, Email, Token, Patient } = setup();
+
+    const patient = Patient.create({
+      name: 'Ann',
+      age: null,
+      status: 'active',
+      address: Address.create({ zip: '12345' }),
+      email: Email.create('ann@example.com'),
+      token: Token.wrap('t'),
+      meta: { source: 'web' },
+    });
+    const age: number | null = patient.age;
+    const status: 'active' | 'archived' = patient.status;
+    const address: BrandedInstance<{ zip: string }, 'DslAddress'> = patient.address;
+    const email: BrandedPrimitiveValue<string, 'DslEmail'> | undefined = patient.email;
+    const token: OpaqueValue<string> | undefined = patient.token;
+    const tags: string[] | undefined = patient.tags;
+    const notes: string | undefined = patient.meta.notes;
+    expect([age, status, address.zip, email, Token.unwrap(token!), tags, notes]).toEqual([
+      null,
+      'active',
+      '12345',
+      'ann@example.com',
+      't',
+      [],
+      undefined,
+    ]);
+  });
+
+  it('rejects mismatched values at compile time and at runtime', () => {
+    const { Address, Patient } = setup();
+    const valid = {
+      name: 'Ann',
+      age: 3,
+      status: 'active' as const,
+      address: Address.create({ zip: '12345' }),
+      meta: { source: 'web' as const },
+    };
+
+    // @ts-expect-error — 'deleted' is not a DslStatus value
+    expect(() => Patient.create({ ...valid, status: 'deleted' })).toThrow(BrandedValidationError);
+    // @ts-expect-error — a plain string is not a DslEmail
+    expect(() => Patient.create({ ...valid, email: 'nope' })).toThrow(BrandedValidationError);
+    expect(() => Patient.create({ ...valid, age: 1.5 })).toThrow(BrandedValidationError);
+    expect(() => Patient.create({ ...valid, name: '' })).toThrow(BrandedValidationError);
+  });
+
+  it('names the instance type of a set of fields', () => {
+    const fields = { id: t.string(), count: t.number().optional() };
+    type Counter = InferSchemaFields<typeof fields>;
+    const counter: Counter = { id: 'c' };
+    const Counter = createBrandedInterface('DslCounter', t.schema(fields));
+
+    expect(Counter.create(counter)).toEqual({ id: 'c' });
+  });
+});
@@ -8,7 +8,9 @@
 import * as fc from 'fast-check';
 import { createBrandedInterface } from '../factory.js';
 import { resetInterfaceRegistry } from '../registry.js';
+import { createOpaqueType } from '../opaque.js';
 import { interfaceSerializer } from '../serializer.js';
+import { INTERFACE_ID } from '../types.js';
 import {
   arbUniqueId,
   arbInterfaceSchema,
@@ -194,6 +196,19 @@ describe('interfaceSerializer — unit tests', () => {
   // Requirement 9.3: deserialize validates and brands the result
   // ---------------------------------------------------------------------------
 
+  it('deserialize fills in field defaults', () => {
+    const def = createBrandedInterface('SerDefaults', {
+      x: { type: 'string' },
+      tags: { type: 'array', default: () => [] },
+    });
+
+    const result = interfaceSerializer(def).deserialize('{"x":"a"}');
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.tags).toEqual([]);
+    }
+  });
+
   it('deserialize returns success with branded instance for valid JSON', () => {
     const def = createBrandedInterface('SerProduct', {
       title: { type: 'string' },
@@ -327,6 +342,35 @@ describe('interfaceSerializer — unit tests', () => {
     }
   });
 
+  it('round-trips nested branded-interface refs with autoBrand', () => {
+    const Address = createBrandedInterface('SerAddress', {
+      city: { type: 'string' },
+    });
+    const Person = createBrandedInterface('SerPerson', {
+      name: { type: 'string' },
+      home: { type: 'branded-interface', ref: 'SerAddress' },
+      others: { type: 'array', items: { type: 'branded-interface', ref: 'SerAddress' } },
+    });
+    const person = Person.create({
+      name: 'Ann',
+      home: Address.create({ city: 'Oslo' }),
+      others: [Address.create({ city: 'Rome' })],
+    });
+
+    const json = interfaceSerializer(Person).serialize(person);
+
+    expect(interfaceSerializer(Person).deserialize(json).success).toBe(false);
+
+    const result = interfaceSerializer(Person, { autoBrand: true }).deserialize(json);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value).toEqual(person);
+      expect((result.value.home as Record<symbol, unknown>)[INTERFACE_ID]).toBe('SerAddress');
+      const others = result.value.others as Array<Record<symbol, unknown>>;
+      expect(others[0][INTERFACE_ID]).toBe('SerAddress');
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // deserializeOrThrow
   // ---------------------------------------------------------------------------
@@ -358,4 +402,113 @@ describe('interfaceSerializer — unit tests', () => {
 
     expect(() => serializer.deserializeOrThrow('{"x":42}')).toThrow();
   });
+
+  it('deserialize coerces string-encoded values when coerce is enabled', () => {
+    const def = createBrandedInterface('SerCoerce', {
+      id: { type: 'number' },
+      active: { type: 'boolean' },
+    });
+    const json = '{"id":"7","active":"false"}';
+
+    expect(interfaceSerializer(def).deserialize(json).success).toBe(false);
+
+    const result = interfaceSerializer(def, { coerce: true }).deserialize(json);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value).toEqual({ id: 7, active: false });
+    }
+  });
+
+  it('encodes date, bigint and bytes fields and decodes them back', () => {
+    const def = createBrandedInterface('SerWire', {
+      createdAt: { type: 'date' },
+      balance: { type: 'bigint' },
+      avatar: { type: 'bytes', nullable: true },
+      history: {
+        type: 'array',
+        items: { type: 'object', properties: { at: { type: 'date' } } },
+      },
+    });
+    const serializer = interfaceSerializer(def);
+    const instance = def.create({
+      createdAt: new Date('2024-05-01T12:00:00.000Z'),
+      balance: 12345678901234567890n,
+      avatar: new Uint8Array([104, 105, 255]),
+      history: [{ at: new Date('2024-01-01T00:00:00.000Z') }],
+    });
+
+    const json = serializer.serialize(instance);
+    expect(JSON.parse(json)).toEqual({
+      createdAt: '2024-05-01T12:00:00.000Z',
+      balance: '12345678901234567890',
+      avatar: 'aGn/',
+      history: [{ at: '2024-01-01T00:00:00.000Z' }],
+    });
+
+    const restored = serializer.deserializeOrThrow(json);
+    expect(restored['createdAt']).toEqual(new Date('2024-05-01T12:00:00.000Z'));
+    expect(restored['balance']).toBe(12345678901234567890n);
+    expect(restored['avatar']).toEqual(new Uint8Array([104, 105, 255]));
+    expect((restored['history'] as Array<{ at: unknown }>)[0].at).toBeInstanceOf(Date);
+  });
+
+  describe('opaque fields', () => {
+    const createPatient = () => {
+      const Ssn = createOpaqueType<string>('SerSsn', 'string');
+      const Patient = createBrandedInterface('SerPatient', {
+        name: { type: 'string' },
+        ssn: { type: 'branded-opaque', ref: 'SerSsn' },
+      });
+      const patient = Patient.create({ name: 'Ann', ssn: Ssn.wrap('123-45-6789') });
+      return { Ssn, Patient, patient };
+    };
+
+    it('omits opaque values by default', () => {
+      const { Patient, patient } = createPatient();
+
+      expect(interfaceSerializer(Patient).serialize(patient)).toBe('{"name":"Ann"}');
+    });
+
+    it('redacts opaque values with the redact policy', () => {
+      const { Patient, patient } = createPatient();
+
+      const json = interfaceSerializer(Patient, { opaque: 'redact' }).serialize(patient);
+      expect(json).toBe('{"name":"Ann","ssn":"[REDACTED]"}');
+    });
+
+    it('round-trips opaque values through an explicit unwrap hook', () => {
+      const { Ssn, Patient, patient } = createPatient();
+      const unwrap = jest.fn((value: unknown, typeId: string) =>
+        typeId === 'SerSsn' ? Ssn.unwrap(value as ReturnType<typeof Ssn.wrap>) : undefined
+      );
+      const serializer = interfaceSerializer(Patient, { opaque: { unwrap } });
+
+      const json = serializer.serialize(patient);
+      expect(json).toBe('{"name":"Ann","ssn":"123-45-6789"}');
+      expect(unwrap).toHaveBeenCalledWith(patient['ssn'], 'SerSsn');
+
+      const restored = serializer.deserializeOrThrow(json);
+      expect(Ssn.unwrap(restored['ssn'] as ReturnType<typeof Ssn.wrap>)).toBe('123-45-6789');
+    });
+  });
+
+  it('reports malformed wire encodings as type mismatches', () => {
+    const def = createBrandedInterface('SerWireBad', {
+      createdAt: { type: 'date' },
+      balance: { type: 'bigint' },
+    });
+
+    const result = interfaceSerializer(def).deserialize(
+      '{"createdAt":"not a date","balance":"1.5"}'
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues?.[0]).toMatchObject({
+        path: ['createdAt'],
+        code: 'type_mismatch',
+        expected: 'date',
+        actual: 'string',
+      });
+    }
+  });
 });
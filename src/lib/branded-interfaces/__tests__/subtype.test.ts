@@ -257,4 +257,39 @@ describe('isSubtype — unit tests', () => {
 
     expect(isSubtype(candidate, supertype)).toBe(true);
   });
+
+  it('treats a literal as a subtype of its base type and of an equal literal', () => {
+    const supertype = createBrandedInterface('LitSuper', { kind: { type: 'string' } });
+    const literal = createBrandedInterface('LitCandidate', {
+      kind: { type: 'literal', value: 'v2' },
+    });
+    const other = createBrandedInterface('LitOther', { kind: { type: 'literal', value: 'v3' } });
+    const numeric = createBrandedInterface('LitNumeric', { kind: { type: 'literal', value: 2 } });
+
+    expect(isSubtype(literal, supertype)).toBe(true);
+    expect(isSubtype(numeric, supertype)).toBe(false);
+    expect(isSubtype(other, literal)).toBe(false);
+    expect(isSubtype(supertype, literal)).toBe(false);
+  });
+
+  it('compares union fields by the values their members accept', () => {
+    const wide = createBrandedInterface('UnionWide', {
+      id: { type: 'union', members: [{ type: 'string' }, { type: 'number' }] },
+    });
+    const narrow = createBrandedInterface('UnionNarrow', { id: { type: 'number' } });
+    const literals = createBrandedInterface('UnionLiterals', {
+      id: {
+        type: 'union',
+        members: [
+          { type: 'literal', value: 'a' },
+          { type: 'literal', value: 1 },
+        ],
+      },
+    });
+
+    expect(isSubtype(narrow, wide)).toBe(true);
+    expect(isSubtype(literals, wide)).toBe(true);
+    expect(isSubtype(wide, narrow)).toBe(false);
+    expect(isSubtype(wide, literals)).toBe(false);
+  });
 });
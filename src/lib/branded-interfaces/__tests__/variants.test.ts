@@ -254,6 +254,18 @@ describe('partialInterface — unit tests', () => {
     expect(instance.x).toBeUndefined();
     expect(instance.y).toBeUndefined();
   });
+
+  it('keeps field defaults intact', () => {
+    const def = createBrandedInterface('DefaultedFields', {
+      status: { type: 'string', default: 'pending' },
+      note: { type: 'string' },
+    });
+
+    const partial = partialInterface(def, 'PartialDefaulted');
+
+    expect(partial.schema['status'].default).toBe('pending');
+    expect(partial.create({} as Record<string, unknown>)).toEqual({ status: 'pending' });
+  });
 });
 
 describe('pickFields — unit tests', () => {
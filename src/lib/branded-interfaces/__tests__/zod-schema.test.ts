@@ -8,7 +8,8 @@
 import * as fc from 'fast-check';
 import { createBrandedInterface } from '../factory.js';
 import { resetInterfaceRegistry } from '../registry.js';
-import { interfaceToZodSchema } from '../zod-schema.js';
+import { interfaceToZodSchema, interfaceUnionToZodSchema } from '../zod-schema.js';
+import { createInterfaceUnion } from '../compose.js';
 import { createBrandedEnum } from '../../factory.js';
 import { resetRegistry } from '../../registry.js';
 import {
@@ -306,6 +307,42 @@ describe('interfaceToZodSchema — unit tests', () => {
     expect(zodSchema.fields['status'].nullable).toBe(true);
   });
 
+  it('emits nested z.object() for object fields with an inline schema', () => {
+    const def = createBrandedInterface('ZodNested', {
+      address: {
+        type: 'object',
+        properties: {
+          street: { type: 'string' },
+          zip: { type: 'string', optional: true, nullable: true },
+        },
+      },
+      meta: { type: 'object', strict: true, properties: { 'x-id': { type: 'number' } } },
+    });
+
+    const zodSchema = interfaceToZodSchema(def);
+
+    expect(zodSchema.fields['address'].zodType).toBe(
+      'z.object({ street: z.string(), zip: z.string().nullable().optional() })'
+    );
+    expect(zodSchema.fields['meta'].zodType).toBe('z.object({ "x-id": z.number() }).strict()');
+  });
+
+  it('reports the unknownKeys mode as the object modifier', () => {
+    const schema = { name: { type: 'string' as const } };
+
+    expect(interfaceToZodSchema(createBrandedInterface('ZodKeysDefault', schema)).unknownKeys).toBe(
+      'passthrough'
+    );
+    expect(
+      interfaceToZodSchema(createBrandedInterface('ZodKeysStrip', schema, { unknownKeys: 'strip' }))
+        .unknownKeys
+    ).toBe('strip');
+    expect(
+      interfaceToZodSchema(createBrandedInterface('ZodKeysStrict', schema, { unknownKeys: 'strict' }))
+        .unknownKeys
+    ).toBe('strict');
+  });
+
   it('handles empty schema', () => {
     const def = createBrandedInterface('ZodEmpty', {} as Record<string, never>);
 
@@ -315,3 +352,194 @@ describe('interfaceToZodSchema — unit tests', () => {
     expect(Object.keys(zodSchema.fields)).toHaveLength(0);
   });
 });
+
+// =============================================================================
+// Unit Tests for interfaceUnionToZodSchema
+// =============================================================================
+
+describe('interfaceToZodSchema — union and literal fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('emits z.literal() and z.union()', () => {
+    const def = createBrandedInterface('ZodLitUnion', {
+      kind: { type: 'literal', value: 'v2' },
+      flag: { type: 'literal', value: true },
+      id: { type: 'union', members: [{ type: 'string' }, { type: 'number' }], nullable: true },
+    });
+
+    const { fields } = interfaceToZodSchema(def);
+
+    expect(fields['kind'].zodType).toBe('z.literal("v2")');
+    expect(fields['flag'].zodType).toBe('z.literal(true)');
+    expect(fields['id'].zodType).toBe('z.union([z.string(), z.number()]).nullable()');
+  });
+
+  it('escapes quotes, backslashes and newlines in string literals', () => {
+    const def = createBrandedInterface('ZodLitEscape', {
+      label: { type: 'literal', value: "it's a \\ path\n" },
+    });
+
+    const { fields } = interfaceToZodSchema(def);
+
+    expect(fields['label'].zodType).toBe('z.literal("it\'s a \\\\ path\\n")');
+    expect(JSON.parse(fields['label'].zodType.slice('z.literal('.length, -1))).toBe(
+      "it's a \\ path\n"
+    );
+  });
+});
+
+describe('interfaceToZodSchema — declarative constraints', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('appends .min(), .max(), .regex(), .int() and a unique-items refinement', () => {
+    const def = createBrandedInterface('ZodConstraints', {
+      username: { type: 'string', minLength: 3, maxLength: 8, pattern: '^[a-z/]+$' },
+      age: { type: 'number', min: 0, max: 150, integer: true, nullable: true },
+      tags: { type: 'array', minItems: 1, uniqueItems: true },
+    });
+
+    const { fields } = interfaceToZodSchema(def);
+
+    expect(fields['username'].zodType).toBe(
+      'z.string().min(3).max(8).regex(new RegExp("^[a-z/]+$"))'
+    );
+    expect(fields['age'].zodType).toBe('z.number().int().min(0).max(150).nullable()');
+    expect(fields['tags'].zodType).toBe(
+      'z.array(z.unknown()).min(1)' +
+        ".refine((items) => new Set(items).size === items.length, { message: 'Items must be unique' })"
+    );
+  });
+});
+
+describe('interfaceToZodSchema — date, bigint and bytes fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('emits z.date(), z.bigint() and z.instanceof(Uint8Array)', () => {
+    const def = createBrandedInterface('ZodWire', {
+      createdAt: { type: 'date' },
+      balance: { type: 'bigint', nullable: true },
+      avatar: { type: 'bytes' },
+    });
+
+    const { fields } = interfaceToZodSchema(def);
+
+    expect(fields['createdAt'].zodType).toBe('z.date()');
+    expect(fields['balance'].zodType).toBe('z.bigint().nullable()');
+    expect(fields['avatar'].zodType).toBe('z.instanceof(Uint8Array)');
+  });
+});
+
+describe('interfaceToZodSchema — tuple and record fields', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+    resetRegistry();
+  });
+
+  it('emits z.tuple() with optional elements and .rest()', () => {
+    const def = createBrandedInterface('ZodTuple', {
+      range: {
+        type: 'tuple',
+        elements: [{ type: 'number' }, { type: 'string', optional: true }],
+      },
+      row: { type: 'tuple', elements: [{ type: 'string' }], rest: { type: 'number' } },
+    });
+
+    const { fields } = interfaceToZodSchema(def);
+
+    expect(fields['range'].zodType).toBe('z.tuple([z.number(), z.string().optional()])');
+    expect(fields['row'].zodType).toBe('z.tuple([z.string()]).rest(z.number())');
+  });
+
+  it('emits z.record() with enum, pattern or string keys', () => {
+    createBrandedEnum('ZodRecordLocale', { En: 'en', Fr: 'fr' } as const);
+    const def = createBrandedInterface('ZodRecord', {
+      labels: { type: 'record', keys: { ref: 'ZodRecordLocale' }, values: { type: 'string' } },
+      paths: { type: 'record', keys: { pattern: '^/api/.+' }, values: { type: 'boolean' } },
+      extra: { type: 'record', nullable: true },
+    });
+
+    const { fields } = interfaceToZodSchema(def);
+
+    expect(fields['labels'].zodType).toBe('z.record(z.enum(["en", "fr"]), z.string())');
+    expect(fields['paths'].zodType).toBe(
+      'z.record(z.string().regex(new RegExp("^/api/.+")), z.boolean())'
+    );
+    expect(fields['extra'].zodType).toBe('z.record(z.string(), z.unknown()).nullable()');
+  });
+
+  it('escapes enum record keys', () => {
+    createBrandedEnum('ZodRecordKeyEscape', { Quote: "it's", Slash: 'a\\b' } as const);
+    const def = createBrandedInterface('ZodRecordKeys', {
+      counts: { type: 'record', keys: { ref: 'ZodRecordKeyEscape' }, values: { type: 'number' } },
+    });
+
+    const { fields } = interfaceToZodSchema(def);
+
+    expect(fields['counts'].zodType).toBe('z.record(z.enum(["it\'s", "a\\\\b"]), z.number())');
+  });
+
+  it('escapes patterns as string literals', () => {
+    const pattern = '^a\\/b\n*/"c"$';
+    const def = createBrandedInterface('ZodPatternEscape', {
+      code: { type: 'string', pattern },
+      byCode: { type: 'record', keys: { pattern }, values: { type: 'number' } },
+    });
+
+    const { fields } = interfaceToZodSchema(def);
+
+    const expression = 'new RegExp("^a\\\\/b\\n*/\\"c\\"$")';
+    expect(fields['code'].zodType).toBe(`z.string().regex(${expression})`);
+    expect(fields['byCode'].zodType).toBe(`z.record(z.string().regex(${expression}), z.number())`);
+    expect(JSON.parse(expression.slice('new RegExp('.length, -1))).toBe(pattern);
+  });
+});
+
+describe('interfaceUnionToZodSchema — unit tests', () => {
+  beforeEach(() => {
+    resetInterfaceRegistry();
+  });
+
+  it('emits z.discriminatedUnion with literal discriminators per member', () => {
+    const Card = createBrandedInterface('ZodUnionCard', {
+      method: { type: 'string' },
+      last4: { type: 'string', optional: true },
+    });
+    const Bank = createBrandedInterface(
+      'ZodUnionBank',
+      { method: { type: 'string' }, iban: { type: 'string' } },
+      { unknownKeys: 'strip' }
+    );
+    const union = createInterfaceUnion('ZodUnionPayment', 'method', { card: Card, bank: Bank });
+
+    const zodSchema = interfaceUnionToZodSchema(union);
+
+    expect(zodSchema.unionId).toBe('ZodUnionPayment');
+    expect(zodSchema.discriminator).toBe('method');
+    expect(zodSchema.members['card'].interfaceId).toBe('ZodUnionCard');
+    expect(zodSchema.zodType).toBe(
+      'z.discriminatedUnion("method", [' +
+        'z.object({ method: z.literal("card"), last4: z.string().optional() }).passthrough(), ' +
+        'z.object({ method: z.literal("bank"), iban: z.string() })])'
+    );
+  });
+
+  it('escapes discriminator keys and values', () => {
+    const A = createBrandedInterface('ZodUnionEscA', { "it's": { type: 'string' } });
+    const B = createBrandedInterface('ZodUnionEscB', { "it's": { type: 'string' } });
+    const union = createInterfaceUnion('ZodUnionEsc', "it's", { "a'": A, 'b\\\n': B });
+
+    const { zodType } = interfaceUnionToZodSchema(union);
+
+    expect(zodType).toBe(
+      'z.discriminatedUnion("it\'s", [' +
+        'z.object({ "it\'s": z.literal("a\'") }).passthrough(), ' +
+        'z.object({ "it\'s": z.literal("b\\\\\\n") }).passthrough()])'
+    );
+  });
+});
@@ -4,6 +4,7 @@
  * The initial step validates and brands the input via the definition's create().
  * Each .pipe() appends a transform, returning a new immutable pipeline.
  * .execute() runs all steps in order, catching errors and returning a CodecResult.
+ * Validation failures at any step keep their structured issues on the result.
  */
 
 import type {
@@ -12,6 +13,7 @@ import type {
   CodecPipeline,
   CodecResult,
 } from './types.js';
+import { isBrandedValidationError } from './errors.js';
 
 /**
  * Creates a codec pipeline whose initial step validates and brands the input
@@ -49,6 +51,7 @@ function buildPipeline<TIn, TOut>(
               message: err instanceof Error ? err.message : String(err),
               step: i,
               input: current,
+              ...(isBrandedValidationError(err) ? { issues: err.issues } : {}),
             },
           };
         }
@@ -0,0 +1,1406 @@
+/**
+ * Compiled schema validators.
+ *
+ * compileSchema() turns an InterfaceSchema into a tree of closures specialized
+ * for each field descriptor, with enum, interface and primitive refs resolved
+ * up front instead of looked up for every value. Failures are collected as
+ * issues and returned rather than thrown, so rejecting data costs no more than
+ * accepting it. The same compiled schema validates whole objects, patches to
+ * existing instances (update() and setIn()) and, with async field validators
+ * and refinements deferred to the end, async runs. Internal module — the
+ * public surface is the definition's methods and safeParseInterface().
+ */
+
+import {
+  INTERFACE_ID,
+  OPAQUE_ID,
+  AsyncInterfaceRefinement,
+  BrandedInstance,
+  BrandedInterfaceDefinition,
+  BrandedPrimitiveDefinition,
+  FieldDescriptor,
+  InterfaceCreateOptions,
+  InterfaceRefinement,
+  InterfaceSchema,
+  RefinementContext,
+  UnknownKeysMode,
+  ValidationIssue,
+  ValidationPathSegment,
+} from './types.js';
+
+import { BrandedValidationError, formatIssuePath } from './errors.js';
+import { getInterfaceById, getInterfaceRegistry } from './registry.js';
+import { getEnumById, getRegistry } from '../registry.js';
+import { ENUM_VALUES } from '../types.js';
+import { notifyWatchers } from './watch.js';
+import { duplicateItemIndexes } from './equality.js';
+import {
+  asyncRequiredError,
+  brandInstance,
+  coercePrimitive,
+  coerceValue,
+  describeExpected,
+  describeValueType,
+  isThenable,
+  resolveDefault,
+  resolveSelfRef,
+  resolveUnknownKeys,
+} from './validation.js';
+
+// =============================================================================
+// Compiled Validation Context
+// =============================================================================
+
+/**
+ * Async checks deferred until the synchronous pass of an async run is
+ * complete, each recorded with the interface whose schema declared it.
+ */
+interface PendingAsyncChecks {
+  readonly fields: Array<{
+    readonly path: ValidationPathSegment[];
+    readonly value: unknown;
+    readonly validateAsync: (value: unknown) => Promise<boolean>;
+    readonly interfaceId: string;
+  }>;
+  readonly refinements: Array<{
+    readonly path: ValidationPathSegment[];
+    readonly data: Record<string, unknown>;
+    readonly refinement: AsyncInterfaceRefinement;
+    readonly interfaceId: string;
+  }>;
+}
+
+/**
+ * State shared by the compiled validators during a single run.
+ *
+ * `path` is a stack of the segments leading to the value being validated:
+ * validators push a segment before descending and pop it afterwards, and
+ * issues copy it. In fail-fast mode validators stop at the first issue and
+ * return INVALID up the tree, so exactly one issue is reported.
+ * `interfaceId` changes while descending into auto-branded refs; `rootId`
+ * always names the interface being validated. `pending` is only present in
+ * async runs; synchronous runs refuse async validators.
+ */
+interface CompiledContext {
+  readonly rootId: string;
+  readonly interfaceId: string;
+  readonly collectAll: boolean;
+  readonly autoBrand: boolean;
+  readonly transform: boolean;
+  readonly coerce: boolean;
+  readonly deepFreeze: boolean;
+  readonly issues: ValidationIssue[];
+  readonly path: ValidationPathSegment[];
+  readonly pending?: PendingAsyncChecks;
+  /** Objects being auto-branded on the current path, to detect cyclic input */
+  readonly ancestors: Set<object>;
+}
+
+/**
+ * Sentinel returned by compiled validators when a value is invalid.
+ */
+const INVALID: unique symbol = Symbol('invalid');
+
+type FieldResult = unknown | typeof INVALID;
+
+/**
+ * Validates a value at `ctx.path`, reporting issues to `ctx` and returning the
+ * output value, or INVALID.
+ */
+type CompiledValidator = (value: unknown, ctx: CompiledContext) => FieldResult;
+
+/**
+ * State shared while compiling one schema and the schemas it references.
+ * `interfaceId` names the interface whose schema is being compiled, which
+ * `'self'` refs resolve to.
+ */
+interface CompileScope {
+  readonly interfaceId: string;
+  /** Validators of auto-branded ref targets, compiled on first use */
+  readonly interfaces: Map<string, CompiledValidator>;
+}
+
+/**
+ * Records a validation issue. Never throws: callers return INVALID and, in
+ * fail-fast mode, stop validating.
+ */
+function reportIssue(
+  ctx: CompiledContext,
+  issue: Omit<ValidationIssue, 'interfaceId' | 'path'>,
+  path: ValidationPathSegment[] = [...ctx.path]
+): typeof INVALID {
+  ctx.issues.push({ path, ...issue, interfaceId: ctx.interfaceId });
+  return INVALID;
+}
+
+function reportTypeMismatch(ctx: CompiledContext, expected: string, value: unknown): typeof INVALID {
+  const actual = describeValueType(value);
+  return reportIssue(ctx, {
+    code: 'type_mismatch',
+    expected,
+    actual,
+    message: `Field "${formatIssuePath(ctx.path)}" expected type "${expected}" but got "${actual}" in interface "${ctx.interfaceId}"`,
+  });
+}
+
+function reportRefFailure(
+  ctx: CompiledContext,
+  code: 'enum_mismatch' | 'ref_mismatch',
+  refId: string,
+  value: unknown
+): typeof INVALID {
+  return reportIssue(ctx, {
+    code,
+    expected: refId,
+    actual: describeValueType(value),
+    message: `Field "${formatIssuePath(ctx.path)}" failed validation against referenced type "${refId}" in interface "${ctx.interfaceId}"`,
+  });
+}
+
+/**
+ * Validator for a descriptor whose ref is absent or does not resolve to a
+ * registered type: every value is reported as `ref_missing`.
+ */
+function refMissing(
+  descriptor: FieldDescriptor,
+  kind: 'enum' | 'interface' | 'primitive' | 'opaque type'
+): CompiledValidator {
+  return (_value, ctx) => {
+    const fieldName = formatIssuePath(ctx.path);
+    return reportIssue(ctx, {
+      code: 'ref_missing',
+      expected: descriptor.ref,
+      message: descriptor.ref
+        ? `Field "${fieldName}" references ${kind} "${descriptor.ref}" which is not registered, in interface "${ctx.interfaceId}"`
+        : `Field "${fieldName}" has type "${descriptor.type}" but no ref specified in interface "${ctx.interfaceId}"`,
+    });
+  };
+}
+
+// =============================================================================
+// Field Compilation
+// =============================================================================
+
+/**
+ * Compiles a field descriptor: coercion, defaults, optional and nullable
+ * handling, the type check, constraints, the custom predicate and the async
+ * predicate, in that order.
+ */
+function compileField(descriptor: FieldDescriptor, scope: CompileScope): CompiledValidator {
+  const coerce = compileCoercion(descriptor);
+  const checkType = compileType(descriptor, scope);
+  const checkConstraints = compileConstraints(descriptor);
+  const { type, optional, nullable, validate, validateAsync } = descriptor;
+  const defaultValue = descriptor.default;
+
+  return (value, ctx) => {
+    if (ctx.coerce) {
+      value = coerce(value);
+    }
+    if (value === undefined && defaultValue !== undefined) {
+      value = resolveDefault(defaultValue);
+    }
+    if (optional && value === undefined) {
+      return value;
+    }
+    if (nullable && value === null) {
+      return value;
+    }
+    if (value === undefined) {
+      return reportIssue(ctx, {
+        code: 'required',
+        expected: type,
+        actual: 'undefined',
+        message: `Field "${formatIssuePath(ctx.path)}" is required but missing in interface "${ctx.interfaceId}"`,
+      });
+    }
+    if (value === null) {
+      return reportTypeMismatch(ctx, type, value);
+    }
+
+    const result = checkType(value, ctx);
+    if (result === INVALID) {
+      return INVALID;
+    }
+    if (checkConstraints && !checkConstraints(result, ctx)) {
+      return INVALID;
+    }
+
+    if (validate) {
+      const passed: unknown = validate(result);
+      if (isThenable(passed)) {
+        throw new Error(
+          `Field "${formatIssuePath(ctx.path)}" validate() returned a Promise in interface "${ctx.interfaceId}"; use validateAsync for async checks`
+        );
+      }
+      if (!passed) {
+        return reportIssue(ctx, {
+          code: 'custom',
+          message: `Field "${formatIssuePath(ctx.path)}" failed custom validation in interface "${ctx.interfaceId}"`,
+        });
+      }
+    }
+
+    // Defer the async predicate until the synchronous pass is complete
+    if (validateAsync) {
+      if (!ctx.pending) {
+        throw asyncRequiredError(ctx);
+      }
+      ctx.pending.fields.push({
+        path: [...ctx.path],
+        value: result,
+        validateAsync,
+        interfaceId: ctx.interfaceId,
+      });
+    }
+    return result;
+  };
+}
+
+/**
+ * Compiles the type check of a descriptor, applied to values that are
+ * neither undefined nor null.
+ */
+function compileType(descriptor: FieldDescriptor, scope: CompileScope): CompiledValidator {
+  switch (descriptor.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'bigint': {
+      const type = descriptor.type;
+      return (value, ctx) => (typeof value === type ? value : reportTypeMismatch(ctx, type, value));
+    }
+    case 'date':
+      // Invalid dates (e.g. new Date('nope')) are rejected as well
+      return (value, ctx) =>
+        value instanceof Date && !Number.isNaN(value.getTime())
+          ? value
+          : reportTypeMismatch(ctx, 'date', value);
+    case 'bytes':
+      return (value, ctx) =>
+        value instanceof Uint8Array ? value : reportTypeMismatch(ctx, 'bytes', value);
+    case 'object': {
+      const properties = descriptor.properties
+        ? compileObject(descriptor.properties, descriptor.strict ? 'strict' : 'passthrough', scope)
+        : undefined;
+      return (value, ctx) => {
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          return reportTypeMismatch(ctx, 'object', value);
+        }
+        return properties ? properties(value, ctx) : value;
+      };
+    }
+    case 'array': {
+      const items = descriptor.items ? compileArrayItems(descriptor.items, scope) : undefined;
+      return (value, ctx) => {
+        if (!Array.isArray(value)) {
+          return reportTypeMismatch(ctx, 'array', value);
+        }
+        return items ? items(value, ctx) : value;
+      };
+    }
+    case 'tuple':
+      return compileTuple(descriptor, scope);
+    case 'record':
+      return compileRecord(descriptor, scope);
+    case 'branded-enum':
+      return compileEnumRef(descriptor);
+    case 'branded-interface':
+      return compileInterfaceRef(descriptor, scope);
+    case 'branded-primitive':
+      return compilePrimitiveRef(descriptor);
+    case 'branded-opaque':
+      return compileOpaqueRef(descriptor);
+    case 'literal': {
+      const literal = descriptor.value;
+      const expected = JSON.stringify(literal);
+      return (value, ctx) =>
+        value === literal
+          ? value
+          : reportIssue(ctx, {
+              code: 'invalid_literal',
+              expected,
+              actual: describeValueType(value),
+              message: `Field "${formatIssuePath(ctx.path)}" expected literal ${expected} in interface "${ctx.interfaceId}"`,
+            });
+    }
+    case 'union':
+      return compileUnion(descriptor, scope);
+    default:
+      return (value) => value;
+  }
+}
+
+/**
+ * Compiles the coercion of loosely typed input to a descriptor's type. Enum
+ * and primitive refs are resolved here; the other rules are coerceValue()'s.
+ */
+function compileCoercion(descriptor: FieldDescriptor): (value: unknown) => unknown {
+  // Non-strings are kept and '' is a missing value, as in coerceValue()
+  const fromString =
+    (coerce: (value: string) => unknown) =>
+    (value: unknown): unknown =>
+      typeof value !== 'string' ? value : value === '' ? undefined : coerce(value);
+
+  if (descriptor.type === 'branded-enum') {
+    const enumObj = descriptor.ref ? getEnumById(descriptor.ref) : undefined;
+    if (!enumObj) {
+      return fromString((value) => value);
+    }
+    const values = enumObj[ENUM_VALUES];
+    const byLowerCase = new Map<string, string>();
+    for (const member of values) {
+      const lower = member.toLowerCase();
+      if (!byLowerCase.has(lower)) {
+        byLowerCase.set(lower, member);
+      }
+    }
+    return fromString((value) =>
+      values.has(value) ? value : (byLowerCase.get(value.toLowerCase()) ?? value)
+    );
+  }
+
+  if (descriptor.type === 'branded-primitive') {
+    const entry = descriptor.ref ? getInterfaceById(descriptor.ref) : undefined;
+    if (!entry || entry.kind !== 'primitive') {
+      return fromString((value) => value);
+    }
+    const { baseType } = entry.definition as BrandedPrimitiveDefinition;
+    return fromString((value) => coercePrimitive(value, baseType));
+  }
+
+  return (value) => coerceValue(value, descriptor);
+}
+
+/**
+ * Compiles the declarative constraints of a descriptor, or returns undefined
+ * when it declares none. The checks that apply depend on the runtime type of
+ * the value: length and pattern for strings, range and integer for numbers,
+ * item count and uniqueness for arrays.
+ */
+function compileConstraints(
+  descriptor: FieldDescriptor
+): ((value: unknown, ctx: CompiledContext) => boolean) | undefined {
+  const { minLength, maxLength, pattern, min, max, integer, minItems, maxItems, uniqueItems } =
+    descriptor;
+  const hasStringConstraints =
+    minLength !== undefined || maxLength !== undefined || pattern !== undefined;
+  const hasNumberConstraints = min !== undefined || max !== undefined || Boolean(integer);
+  const hasArrayConstraints =
+    minItems !== undefined || maxItems !== undefined || Boolean(uniqueItems);
+  if (!hasStringConstraints && !hasNumberConstraints && !hasArrayConstraints) {
+    return undefined;
+  }
+
+  // Compiled on first use, so an invalid pattern fails when a string is checked
+  let regex: RegExp | undefined;
+
+  return (value, ctx) => {
+    let valid = true;
+    // Messages are only formatted for failures
+    const fieldName = (): string => formatIssuePath(ctx.path);
+    const suffix = (): string => `in interface "${ctx.interfaceId}"`;
+    // Returns whether validation should go on after a failure
+    const fail = (
+      issue: Omit<ValidationIssue, 'interfaceId' | 'path'>,
+      path?: ValidationPathSegment[]
+    ): boolean => {
+      valid = false;
+      reportIssue(ctx, issue, path);
+      return ctx.collectAll;
+    };
+
+    if (typeof value === 'string') {
+      if (
+        minLength !== undefined &&
+        value.length < minLength &&
+        !fail({
+          code: 'too_small',
+          expected: `${minLength} characters`,
+          actual: `${value.length} characters`,
+          message: `Field "${fieldName()}" must be at least ${minLength} characters long ${suffix()}`,
+        })
+      ) {
+        return false;
+      }
+      if (
+        maxLength !== undefined &&
+        value.length > maxLength &&
+        !fail({
+          code: 'too_big',
+          expected: `${maxLength} characters`,
+          actual: `${value.length} characters`,
+          message: `Field "${fieldName()}" must be at most ${maxLength} characters long ${suffix()}`,
+        })
+      ) {
+        return false;
+      }
+      if (pattern !== undefined) {
+        regex ??= new RegExp(pattern);
+        if (
+          !regex.test(value) &&
+          !fail({
+            code: 'pattern_mismatch',
+            expected: pattern,
+            message: `Field "${fieldName()}" does not match pattern /${pattern}/ ${suffix()}`,
+          })
+        ) {
+          return false;
+        }
+      }
+    } else if (typeof value === 'number') {
+      if (
+        min !== undefined &&
+        value < min &&
+        !fail({
+          code: 'too_small',
+          expected: `>= ${min}`,
+          actual: String(value),
+          message: `Field "${fieldName()}" must be greater than or equal to ${min} ${suffix()}`,
+        })
+      ) {
+        return false;
+      }
+      if (
+        max !== undefined &&
+        value > max &&
+        !fail({
+          code: 'too_big',
+          expected: `<= ${max}`,
+          actual: String(value),
+          message: `Field "${fieldName()}" must be less than or equal to ${max} ${suffix()}`,
+        })
+      ) {
+        return false;
+      }
+      if (
+        integer &&
+        !Number.isInteger(value) &&
+        !fail({
+          code: 'not_integer',
+          expected: 'integer',
+          actual: String(value),
+          message: `Field "${fieldName()}" must be an integer ${suffix()}`,
+        })
+      ) {
+        return false;
+      }
+    } else if (Array.isArray(value)) {
+      if (
+        minItems !== undefined &&
+        value.length < minItems &&
+        !fail({
+          code: 'too_small',
+          expected: `${minItems} items`,
+          actual: `${value.length} items`,
+          message: `Field "${fieldName()}" must contain at least ${minItems} items ${suffix()}`,
+        })
+      ) {
+        return false;
+      }
+      if (
+        maxItems !== undefined &&
+        value.length > maxItems &&
+        !fail({
+          code: 'too_big',
+          expected: `${maxItems} items`,
+          actual: `${value.length} items`,
+          message: `Field "${fieldName()}" must contain at most ${maxItems} items ${suffix()}`,
+        })
+      ) {
+        return false;
+      }
+      if (uniqueItems) {
+        for (const index of duplicateItemIndexes(value, descriptor.items)) {
+          const itemPath = [...ctx.path, index];
+          const goOn = fail(
+            {
+              code: 'not_unique',
+              message: `Field "${formatIssuePath(itemPath)}" duplicates an earlier item ${suffix()}`,
+            },
+            itemPath
+          );
+          if (!goOn) {
+            return false;
+          }
+        }
+      }
+    }
+
+    return valid;
+  };
+}
+
+// =============================================================================
+// Composite Compilation
+// =============================================================================
+
+/**
+ * Compiles a union: members are tried in order, each in a collect-all attempt
+ * whose issues are discarded, and the first match produces the output. Async
+ * checks deferred by failed attempts are discarded as well.
+ */
+function compileUnion(descriptor: FieldDescriptor, scope: CompileScope): CompiledValidator {
+  const members = descriptor.members ?? [];
+  const validators = members.map((member) => compileField(member, scope));
+  const expected = members.map(describeExpected).join(' | ');
+
+  return (value, ctx) => {
+    for (const validator of validators) {
+      const pending: PendingAsyncChecks | undefined = ctx.pending
+        ? { fields: [], refinements: [] }
+        : undefined;
+      const attempt: CompiledContext = { ...ctx, collectAll: true, issues: [], pending };
+      const result = validator(value, attempt);
+      if (result !== INVALID && attempt.issues.length === 0) {
+        if (pending && ctx.pending) {
+          ctx.pending.fields.push(...pending.fields);
+          ctx.pending.refinements.push(...pending.refinements);
+        }
+        return result;
+      }
+    }
+    return reportIssue(ctx, {
+      code: 'invalid_union',
+      expected,
+      actual: describeValueType(value),
+      message: `Field "${formatIssuePath(ctx.path)}" did not match any member of its union in interface "${ctx.interfaceId}"`,
+    });
+  };
+}
+
+/**
+ * Compiles the item check of an array field. The validator returns a new
+ * array only when an item was transformed.
+ */
+function compileArrayItems(items: FieldDescriptor, scope: CompileScope): CompiledValidator {
+  const validateItem = compileField(items, scope);
+
+  return (value, ctx) => {
+    const array = value as unknown[];
+    const { path } = ctx;
+    let output: unknown[] | undefined;
+    let valid = true;
+
+    for (let i = 0; i < array.length; i++) {
+      path.push(i);
+      const item = validateItem(array[i], ctx);
+      path.pop();
+      if (item === INVALID) {
+        valid = false;
+        if (!ctx.collectAll) {
+          return INVALID;
+        }
+      } else if (item !== array[i]) {
+        output ??= [...array];
+        output[i] = item;
+      }
+    }
+
+    return valid ? (output ?? array) : INVALID;
+  };
+}
+
+/**
+ * Compiles a tuple field: length checks, then each element against its
+ * positional descriptor or `rest`.
+ */
+function compileTuple(descriptor: FieldDescriptor, scope: CompileScope): CompiledValidator {
+  const elements = descriptor.elements ?? [];
+  const validators = elements.map((element) => compileField(element, scope));
+  const validateRest = descriptor.rest ? compileField(descriptor.rest, scope) : undefined;
+  let minLength = elements.length;
+  while (
+    minLength > 0 &&
+    (elements[minLength - 1].optional || elements[minLength - 1].default !== undefined)
+  ) {
+    minLength--;
+  }
+
+  return (value, ctx) => {
+    if (!Array.isArray(value)) {
+      return reportTypeMismatch(ctx, 'tuple', value);
+    }
+    if (value.length < minLength) {
+      return reportIssue(ctx, {
+        code: 'too_small',
+        expected: `${minLength} elements`,
+        actual: `${value.length} elements`,
+        message: `Field "${formatIssuePath(ctx.path)}" expected at least ${minLength} elements but got ${value.length} in interface "${ctx.interfaceId}"`,
+      });
+    }
+    if (!validateRest && value.length > elements.length) {
+      return reportIssue(ctx, {
+        code: 'too_big',
+        expected: `${elements.length} elements`,
+        actual: `${value.length} elements`,
+        message: `Field "${formatIssuePath(ctx.path)}" expected at most ${elements.length} elements but got ${value.length} in interface "${ctx.interfaceId}"`,
+      });
+    }
+
+    const { path } = ctx;
+    let output: unknown[] | undefined;
+    let valid = true;
+
+    const length = Math.max(value.length, elements.length);
+    for (let i = 0; i < length; i++) {
+      const validateElement = i < validators.length ? validators[i] : validateRest;
+      if (!validateElement) {
+        break;
+      }
+      path.push(i);
+      const element = validateElement(value[i], ctx);
+      path.pop();
+      if (element === INVALID) {
+        valid = false;
+        if (!ctx.collectAll) {
+          return INVALID;
+        }
+      } else if (element !== value[i]) {
+        output ??= [...value];
+        output[i] = element;
+      }
+    }
+
+    return valid ? (output ?? value) : INVALID;
+  };
+}
+
+/**
+ * Compiles a record field: its key constraint, with an enum key ref resolved
+ * up front, and the descriptor every value must match.
+ */
+function compileRecord(descriptor: FieldDescriptor, scope: CompileScope): CompiledValidator {
+  const { keys } = descriptor;
+  const validateValue = descriptor.values ? compileField(descriptor.values, scope) : undefined;
+  const enumRef = keys?.ref;
+  const enumObj = enumRef !== undefined ? getEnumById(enumRef) : undefined;
+  const allowedKeys = enumObj ? (enumObj[ENUM_VALUES] as Set<string>) : undefined;
+  const keyRule = allowedKeys ? `enum "${enumRef}"` : `pattern /${keys?.pattern}/`;
+  // Compiled on first use, so an invalid pattern fails when a record is checked
+  let pattern: RegExp | undefined;
+
+  return (value, ctx) => {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return reportTypeMismatch(ctx, 'record', value);
+    }
+    if (keys?.pattern !== undefined) {
+      pattern ??= new RegExp(keys.pattern);
+    }
+    if (enumRef !== undefined && !allowedKeys) {
+      return reportIssue(ctx, {
+        code: 'ref_missing',
+        expected: enumRef,
+        message: `Field "${formatIssuePath(ctx.path)}" references enum "${enumRef}" for its keys which is not registered, in interface "${ctx.interfaceId}"`,
+      });
+    }
+
+    const record = value as Record<string, unknown>;
+    const { path } = ctx;
+    let output: Record<string, unknown> | undefined;
+    let valid = true;
+
+    for (const key of Object.keys(record)) {
+      if ((pattern && !pattern.test(key)) || (allowedKeys && !allowedKeys.has(key))) {
+        const keyPath = [...path, key];
+        reportIssue(
+          ctx,
+          {
+            code: 'invalid_key',
+            expected: enumRef ?? keys?.pattern,
+            actual: key,
+            message: `Field "${formatIssuePath(keyPath)}" has a key not allowed by ${keyRule} in interface "${ctx.interfaceId}"`,
+          },
+          keyPath
+        );
+        valid = false;
+        if (!ctx.collectAll) {
+          return INVALID;
+        }
+        continue;
+      }
+      if (!validateValue) {
+        continue;
+      }
+      path.push(key);
+      const entry = validateValue(record[key], ctx);
+      path.pop();
+      if (entry === INVALID) {
+        valid = false;
+        if (!ctx.collectAll) {
+          return INVALID;
+        }
+      } else if (entry !== record[key]) {
+        output ??= { ...record };
+        output[key] = entry;
+      }
+    }
+
+    return valid ? (output ?? record) : INVALID;
+  };
+}
+
+/**
+ * Compiles the property checks of an object against a schema, with undeclared
+ * keys kept, stripped or reported per `unknownKeys`. The validator returns a
+ * shallow copy only when a property was transformed or stripped.
+ */
+function compileObject(
+  schema: InterfaceSchema,
+  unknownKeys: UnknownKeysMode,
+  scope: CompileScope
+): CompiledValidator {
+  const fields = Object.entries(schema).map(
+    ([key, descriptor]) => [key, compileField(descriptor, scope)] as const
+  );
+
+  return (value, ctx) => {
+    const data = value as Record<string, unknown>;
+    const { path } = ctx;
+    let output: Record<string, unknown> | undefined;
+    let valid = true;
+
+    if (unknownKeys !== 'passthrough') {
+      for (const key of Object.keys(data)) {
+        if (key in schema) {
+          continue;
+        }
+        if (unknownKeys === 'strip') {
+          output ??= { ...data };
+          delete output[key];
+          continue;
+        }
+        reportUnrecognizedKey(ctx, key);
+        valid = false;
+        if (!ctx.collectAll) {
+          return INVALID;
+        }
+      }
+    }
+
+    for (const [key, validateProperty] of fields) {
+      path.push(key);
+      const property = validateProperty(data[key], ctx);
+      path.pop();
+      if (property === INVALID) {
+        valid = false;
+        if (!ctx.collectAll) {
+          return INVALID;
+        }
+      } else if (property !== data[key]) {
+        output ??= { ...data };
+        output[key] = property;
+      }
+    }
+
+    return valid ? (output ?? data) : INVALID;
+  };
+}
+
+function reportUnrecognizedKey(ctx: CompiledContext, key: string): void {
+  const { path } = ctx;
+  const keyPath = [...path, key];
+  reportIssue(
+    ctx,
+    {
+      code: 'unrecognized_key',
+      message:
+        path.length > 0
+          ? `Field "${formatIssuePath(keyPath)}" is not declared in the schema of "${formatIssuePath(path)}" in interface "${ctx.interfaceId}"`
+          : `Field "${key}" is not declared in the schema of interface "${ctx.interfaceId}"`,
+    },
+    keyPath
+  );
+}
+
+// =============================================================================
+// Reference Compilation
+// =============================================================================
+
+function compileEnumRef(descriptor: FieldDescriptor): CompiledValidator {
+  const refId = descriptor.ref;
+  const enumObj = refId ? getEnumById(refId) : undefined;
+  if (!refId || !enumObj) {
+    return refMissing(descriptor, 'enum');
+  }
+  const values = enumObj[ENUM_VALUES] as Set<string>;
+  return (value, ctx) =>
+    values.has(value as string) ? value : reportRefFailure(ctx, 'enum_mismatch', refId, value);
+}
+
+function compilePrimitiveRef(descriptor: FieldDescriptor): CompiledValidator {
+  const refId = descriptor.ref;
+  const entry = refId ? getInterfaceById(refId) : undefined;
+  if (!refId || !entry || entry.kind !== 'primitive') {
+    return refMissing(descriptor, 'primitive');
+  }
+  const primDef = entry.definition as BrandedPrimitiveDefinition;
+  return (value, ctx) =>
+    primDef.validate(value) ? value : reportRefFailure(ctx, 'ref_mismatch', refId, value);
+}
+
+function compileOpaqueRef(descriptor: FieldDescriptor): CompiledValidator {
+  const refId = descriptor.ref;
+  const entry = refId ? getInterfaceById(refId) : undefined;
+  if (!refId || !entry || entry.kind !== 'opaque') {
+    return refMissing(descriptor, 'opaque type');
+  }
+  return (value, ctx) =>
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Record<symbol, unknown>)[OPAQUE_ID] === refId
+      ? value
+      : reportRefFailure(ctx, 'ref_mismatch', refId, value);
+}
+
+/**
+ * Compiles a branded-interface ref. Instances branded with the referenced ID
+ * are accepted as-is; with `autoBrand`, plain objects are validated against
+ * the referenced definition — compiled on first use, which also makes
+ * recursive schemas safe to compile — and branded.
+ */
+function compileInterfaceRef(descriptor: FieldDescriptor, scope: CompileScope): CompiledValidator {
+  const refId = resolveSelfRef(descriptor.ref, scope.interfaceId);
+  const entry = refId ? getInterfaceById(refId) : undefined;
+  if (!refId || !entry || entry.kind !== 'interface') {
+    return refMissing(descriptor, 'interface');
+  }
+  const refDef = entry.definition as BrandedInterfaceDefinition;
+
+  return (value, ctx) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return reportRefFailure(ctx, 'ref_mismatch', refId, value);
+    }
+    const valueId = (value as Record<symbol, unknown>)[INTERFACE_ID];
+    if (valueId === refId) {
+      return value;
+    }
+    if (!ctx.autoBrand || valueId !== undefined) {
+      return reportRefFailure(ctx, 'ref_mismatch', refId, value);
+    }
+
+    // A recursive schema would never finish auto-branding cyclic input
+    if (ctx.ancestors.has(value)) {
+      return reportIssue(ctx, {
+        code: 'circular_reference',
+        expected: refId,
+        message: `Field "${formatIssuePath(ctx.path)}" refers back to an enclosing object in interface "${ctx.interfaceId}"`,
+      });
+    }
+
+    let validateNested = scope.interfaces.get(refId);
+    if (!validateNested) {
+      validateNested = compileInterfaceObject(
+        refDef.schema,
+        resolveUnknownKeys(refDef.unknownKeys),
+        refDef,
+        { interfaceId: refId, interfaces: scope.interfaces }
+      );
+      scope.interfaces.set(refId, validateNested);
+    }
+
+    ctx.ancestors.add(value);
+    let nested: FieldResult;
+    try {
+      nested = validateNested(value, { ...ctx, interfaceId: refId });
+    } finally {
+      ctx.ancestors.delete(value);
+    }
+    if (nested === INVALID || !ctx.transform) {
+      return nested;
+    }
+
+    const branded = brandInstance(
+      nested as Record<string, unknown>,
+      refId,
+      refDef.schema,
+      ctx.deepFreeze
+    );
+    notifyWatchers(refId, 'create', branded);
+    return branded;
+  };
+}
+
+// =============================================================================
+// Interface Compilation
+// =============================================================================
+
+/**
+ * Interface-level settings of a compiled schema, fixed at compile time.
+ */
+export interface CompiledSchemaOptions {
+  readonly unknownKeys?: UnknownKeysMode;
+  readonly refinements?: ReadonlyArray<InterfaceRefinement>;
+  readonly asyncRefinements?: ReadonlyArray<AsyncInterfaceRefinement>;
+}
+
+/**
+ * Compiles an interface object: its properties, then its refinements once
+ * every property is valid. Async refinements are deferred to the end of an
+ * async run.
+ */
+function compileInterfaceObject(
+  schema: InterfaceSchema,
+  unknownKeys: UnknownKeysMode,
+  options: CompiledSchemaOptions,
+  scope: CompileScope
+): CompiledValidator {
+  const validateObject = compileObject(schema, unknownKeys, scope);
+  const requiresAsync = hasAsyncRefinements(options);
+
+  return (value, ctx) => {
+    if (requiresAsync && !ctx.pending) {
+      throw asyncRequiredError(ctx);
+    }
+
+    const issueCount = ctx.issues.length;
+    const output = validateObject(value, ctx);
+    if (output === INVALID || ctx.issues.length > issueCount) {
+      return output;
+    }
+    return runRefinements(output as Record<string, unknown>, options, ctx);
+  };
+}
+
+/**
+ * Validates a patch to an object that already satisfies the schema, reporting
+ * issues to `ctx` and returning the merged output, or INVALID.
+ */
+type CompiledPatchValidator = (
+  base: Record<string, unknown>,
+  patch: Record<string, unknown>,
+  ctx: CompiledContext
+) => FieldResult;
+
+/**
+ * Compiles patch validation for update() and setIn(): only the patched
+ * properties are validated, then the refinements run against the merged
+ * result, since they may depend on any property. Undeclared patch keys are
+ * kept, dropped or reported per `unknownKeys`.
+ */
+function compileInterfacePatch(
+  schema: InterfaceSchema,
+  unknownKeys: UnknownKeysMode,
+  options: CompiledSchemaOptions,
+  scope: CompileScope
+): CompiledPatchValidator {
+  const fields = new Map(
+    Object.entries(schema).map(([key, descriptor]) => [key, compileField(descriptor, scope)])
+  );
+  const requiresAsync = hasAsyncRefinements(options);
+
+  return (base, patch, ctx) => {
+    if (requiresAsync) {
+      throw asyncRequiredError(ctx);
+    }
+
+    const { path } = ctx;
+    const output: Record<string, unknown> = { ...base };
+    let valid = true;
+
+    for (const [key, value] of Object.entries(patch)) {
+      const validateProperty = fields.get(key);
+      if (validateProperty) {
+        path.push(key);
+        const property = validateProperty(value, ctx);
+        path.pop();
+        if (property === INVALID) {
+          valid = false;
+          if (!ctx.collectAll) {
+            return INVALID;
+          }
+        } else {
+          output[key] = property;
+        }
+      } else if (unknownKeys === 'passthrough') {
+        output[key] = value;
+      } else if (unknownKeys === 'strict') {
+        reportUnrecognizedKey(ctx, key);
+        valid = false;
+        if (!ctx.collectAll) {
+          return INVALID;
+        }
+      }
+    }
+
+    return valid ? runRefinements(output, options, ctx) : INVALID;
+  };
+}
+
+function hasAsyncRefinements({ asyncRefinements }: CompiledSchemaOptions): boolean {
+  return asyncRefinements !== undefined && asyncRefinements.length > 0;
+}
+
+/**
+ * Runs the refinements of an interface against its valid output. When they
+ * all pass, its async refinements are deferred in an async run.
+ */
+function runRefinements(
+  output: Record<string, unknown>,
+  { refinements, asyncRefinements }: CompiledSchemaOptions,
+  ctx: CompiledContext
+): FieldResult {
+  let valid = true;
+  for (const refinement of refinements ?? []) {
+    if (!runRefinement(output, refinement, ctx)) {
+      valid = false;
+      if (!ctx.collectAll) {
+        return INVALID;
+      }
+    }
+  }
+  if (!valid) {
+    return INVALID;
+  }
+
+  for (const refinement of asyncRefinements ?? []) {
+    ctx.pending?.refinements.push({
+      path: [...ctx.path],
+      data: output,
+      refinement,
+      interfaceId: ctx.interfaceId,
+    });
+  }
+  return output;
+}
+
+/**
+ * An issue added through RefinementContext, with its full path.
+ */
+interface RefinementIssue {
+  readonly message: string;
+  readonly path: ValidationPathSegment[];
+}
+
+function refinementContext(
+  path: ValidationPathSegment[],
+  added: RefinementIssue[]
+): RefinementContext {
+  return {
+    addIssue: (issue) => {
+      added.push({ message: issue.message, path: [...path, ...(issue.path ?? [])] });
+    },
+  };
+}
+
+/**
+ * Runs a single refinement. Returns whether it passed.
+ */
+function runRefinement(
+  data: Record<string, unknown>,
+  refinement: InterfaceRefinement,
+  ctx: CompiledContext
+): boolean {
+  const path = [...ctx.path];
+  const added: RefinementIssue[] = [];
+  const result = refinement(data, refinementContext(path, added));
+  if (isThenable(result)) {
+    throw new Error(
+      `Refinement "${refinement.name || 'anonymous'}" of interface "${ctx.interfaceId}" returned a Promise; declare it in asyncRefinements`
+    );
+  }
+  return reportRefinementIssues(path, added, result, refinement.name, ctx);
+}
+
+/**
+ * Reports the issues a refinement added (only the first in fail-fast mode),
+ * or a generic issue when it returned `false` without adding any. Returns
+ * whether the refinement passed.
+ */
+function reportRefinementIssues(
+  path: ValidationPathSegment[],
+  added: RefinementIssue[],
+  result: boolean | void,
+  refinementName: string,
+  ctx: CompiledContext
+): boolean {
+  if (added.length === 0 && result === false) {
+    const name = refinementName || 'anonymous';
+    added.push({
+      path,
+      message:
+        path.length > 0
+          ? `Field "${formatIssuePath(path)}" failed refinement "${name}" of interface "${ctx.interfaceId}"`
+          : `Interface "${ctx.interfaceId}" failed refinement "${name}"`,
+    });
+  }
+
+  for (const issue of ctx.collectAll ? added : added.slice(0, 1)) {
+    reportIssue(ctx, { code: 'custom', message: issue.message }, issue.path);
+  }
+  return added.length === 0;
+}
+
+// =============================================================================
+// compileSchema
+// =============================================================================
+
+/**
+ * Options controlling a single validation run. The interface-level settings
+ * are fixed by compileSchema().
+ */
+export interface SchemaValidationOptions {
+  /** Report every failure instead of stopping at the first */
+  readonly collectAll?: boolean;
+  /** Validate and brand plain objects found in branded-interface ref fields */
+  readonly autoBrand?: boolean;
+  /** Build the output value; when false, values are only checked (no branding side effects) */
+  readonly transform?: boolean;
+  /** Coerce loosely typed values to their field types before validating them */
+  readonly coerce?: boolean;
+  /** Deep-copy and deep-freeze auto-branded nested instances */
+  readonly deepFreeze?: boolean;
+}
+
+/**
+ * Result of a compiled validation run: the output to brand — the input
+ * itself, or a shallow copy when fields were transformed — or the issues.
+ */
+export type CompiledValidationResult =
+  | { readonly success: true; readonly value: Record<string, unknown> }
+  | { readonly success: false; readonly issues: ReadonlyArray<ValidationIssue> };
+
+/**
+ * A compiled schema. Invalid data is reported in the result, never thrown;
+ * only misconfiguration and exceptions from user code are thrown: an async
+ * validator met by a synchronous run, a predicate or refinement returning a
+ * Promise, or an error thrown by a predicate.
+ */
+export interface CompiledSchema {
+  /** Validates data like create() */
+  readonly validate: (data: unknown, options?: SchemaValidationOptions) => CompiledValidationResult;
+  /**
+   * Validates data like createAsync(): after the synchronous pass succeeds,
+   * every async field validator runs concurrently; if they all pass, every
+   * async refinement runs concurrently. Issues are reported in schema order.
+   * A rejected async validator rejects the returned promise with its error.
+   */
+  readonly validateAsync: (
+    data: unknown,
+    options?: SchemaValidationOptions
+  ) => Promise<CompiledValidationResult>;
+  /**
+   * Validates a patch to `base`, an object that already satisfies the schema,
+   * like update(); the value of a successful result is the merged object.
+   */
+  readonly validatePatch: (
+    base: Record<string, unknown>,
+    patch: unknown,
+    options?: SchemaValidationOptions
+  ) => CompiledValidationResult;
+}
+
+/**
+ * Compiled validators of one registry revision, shared by whole-object and
+ * patch validation so nested refs are compiled once.
+ */
+interface CompiledRoot {
+  readonly validate: CompiledValidator;
+  readonly validatePatch: CompiledPatchValidator;
+}
+
+/**
+ * Compiles a schema into whole-object, async and patch validators.
+ *
+ * Compilation happens on first use and again whenever a definition or enum
+ * has been registered (or the registries reset) since, because refs may name
+ * definitions created after the schema. Registries created by older copies of
+ * the library carry no revision; against those the schema is compiled afresh
+ * on every run so refs are never stale. Patch validation is compiled the
+ * first time it is used.
+ */
+export function compileSchema(
+  schema: InterfaceSchema,
+  interfaceId: string,
+  options: CompiledSchemaOptions = {}
+): CompiledSchema {
+  const unknownKeys = resolveUnknownKeys(options.unknownKeys);
+  let root: { validate: CompiledValidator; validatePatch?: CompiledPatchValidator } | undefined;
+  let scope: CompileScope | undefined;
+  let interfaceRevision: number | undefined;
+  let enumRevision: number | undefined;
+
+  const compiled = (): CompiledRoot => {
+    // Without revisions (registries of older library copies), refs are resolved on every run
+    const interfaces = getInterfaceRegistry();
+    const enums = getRegistry();
+    if (
+      !root ||
+      !scope ||
+      interfaces.revision === undefined ||
+      enums.revision === undefined ||
+      interfaces.revision !== interfaceRevision ||
+      enums.revision !== enumRevision
+    ) {
+      interfaceRevision = interfaces.revision;
+      enumRevision = enums.revision;
+      scope = { interfaceId, interfaces: new Map() };
+      root = { validate: compileInterfaceObject(schema, unknownKeys, options, scope) };
+    }
+    root.validatePatch ??= compileInterfacePatch(schema, unknownKeys, options, scope);
+    return root as CompiledRoot;
+  };
+
+  const createContext = (
+    data: object,
+    runOptions: SchemaValidationOptions,
+    pending?: PendingAsyncChecks
+  ): CompiledContext => ({
+    rootId: interfaceId,
+    interfaceId,
+    collectAll: runOptions.collectAll ?? false,
+    autoBrand: runOptions.autoBrand ?? false,
+    transform: runOptions.transform ?? true,
+    coerce: runOptions.coerce ?? false,
+    deepFreeze: runOptions.deepFreeze ?? false,
+    issues: [],
+    path: [],
+    ...(pending ? { pending } : {}),
+    ancestors: new Set([data]),
+  });
+
+  const run = (
+    data: unknown,
+    runOptions: SchemaValidationOptions,
+    pending?: PendingAsyncChecks
+  ): CompiledValidationResult => {
+    if (!isPlainObject(data)) {
+      return notAnObject(data, interfaceId);
+    }
+    const ctx = createContext(data, runOptions, pending);
+    const output = compiled().validate(data, ctx);
+    return finish(output, ctx);
+  };
+
+  const validateAsync = async (
+    data: unknown,
+    runOptions: SchemaValidationOptions = {}
+  ): Promise<CompiledValidationResult> => {
+    const pending: PendingAsyncChecks = { fields: [], refinements: [] };
+    const result = run(data, runOptions, pending);
+    if (!result.success) {
+      return result;
+    }
+    const ctx = createContext(result.value, runOptions);
+
+    const fieldResults = await Promise.all(
+      pending.fields.map((check) => check.validateAsync(check.value))
+    );
+    for (const [i, check] of pending.fields.entries()) {
+      if (!fieldResults[i]) {
+        reportIssue(
+          { ...ctx, interfaceId: check.interfaceId },
+          {
+            code: 'custom',
+            message: `Field "${formatIssuePath(check.path)}" failed async validation in interface "${check.interfaceId}"`,
+          },
+          check.path
+        );
+        if (!ctx.collectAll) {
+          return finish(INVALID, ctx);
+        }
+      }
+    }
+
+    if (ctx.issues.length === 0) {
+      const refinementResults = await Promise.all(
+        pending.refinements.map(async (check) => {
+          const added: RefinementIssue[] = [];
+          const passed = await check.refinement(check.data, refinementContext(check.path, added));
+          return { added, passed };
+        })
+      );
+      for (const [i, check] of pending.refinements.entries()) {
+        const { added, passed } = refinementResults[i];
+        const refinementCtx = { ...ctx, interfaceId: check.interfaceId };
+        if (
+          !reportRefinementIssues(check.path, added, passed, check.refinement.name, refinementCtx) &&
+          !ctx.collectAll
+        ) {
+          return finish(INVALID, ctx);
+        }
+      }
+    }
+    return finish(result.value, ctx);
+  };
+
+  const validatePatch = (
+    base: Record<string, unknown>,
+    patch: unknown,
+    runOptions: SchemaValidationOptions = {}
+  ): CompiledValidationResult => {
+    if (!isPlainObject(patch)) {
+      return notAnObject(patch, interfaceId);
+    }
+    const ctx = createContext(patch, runOptions);
+    const output = compiled().validatePatch(base, patch, ctx);
+    return finish(output, ctx);
+  };
+
+  return {
+    validate: (data, runOptions = {}) => run(data, runOptions),
+    validateAsync,
+    validatePatch,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function notAnObject(value: unknown, interfaceId: string): CompiledValidationResult {
+  const actual = describeValueType(value);
+  return {
+    success: false,
+    issues: [
+      {
+        path: [],
+        code: 'type_mismatch',
+        expected: 'object',
+        actual,
+        interfaceId,
+        message: `Expected a plain object for interface "${interfaceId}" but got "${actual}"`,
+      },
+    ],
+  };
+}
+
+function finish(output: FieldResult, ctx: CompiledContext): CompiledValidationResult {
+  if (output === INVALID || ctx.issues.length > 0) {
+    return { success: false, issues: ctx.issues };
+  }
+  return { success: true, value: output as Record<string, unknown> };
+}
+
+// =============================================================================
+// Compiled Parsers
+// =============================================================================
+
+/**
+ * Validates and brands a value like create(), returning the validation error
+ * instead of throwing it.
+ */
+export type CompiledParser = (
+  value: unknown,
+  options?: InterfaceCreateOptions
+) =>
+  | { readonly success: true; readonly value: BrandedInstance<Record<string, unknown>> }
+  | { readonly success: false; readonly error: BrandedValidationError };
+
+/** Parsers of the definitions created by this copy of the library */
+const compiledParsers = new WeakMap<object, CompiledParser>();
+
+/**
+ * Registers the compiled parser safeParseInterface() uses for a definition.
+ */
+export function setCompiledParser(definition: object, parser: CompiledParser): void {
+  compiledParsers.set(definition, parser);
+}
+
+/**
+ * Gets the compiled parser of a definition, if it has one. Union definitions
+ * and definitions created by another copy of the library have none.
+ */
+export function getCompiledParser(definition: object): CompiledParser | undefined {
+  return compiledParsers.get(definition);
+}
@@ -2,16 +2,24 @@
  * Composition and variant functions for branded interfaces.
  *
  * All functions create new definitions via createBrandedInterface(),
- * ensuring proper registration and freezing.
+ * ensuring proper registration and freezing. createInterfaceUnion()
+ * combines existing definitions into a registered discriminated union.
  */
 
 import {
+  INTERFACE_UNION,
   InterfaceSchema,
   BrandedInterfaceDefinition,
+  BrandedInterfaceUnionDefinition,
+  BrandedInstance,
   FieldDescriptor,
+  InterfaceCreateOptions,
 } from './types.js';
 
 import { createBrandedInterface } from './factory.js';
+import { BrandedValidationError } from './errors.js';
+import { getInterfaceById, registerInterfaceEntry } from './registry.js';
+import { describeValueType } from './validation.js';
 
 // =============================================================================
 // composeInterfaces
@@ -88,6 +96,7 @@ export function extendInterface(
 
 /**
  * Creates a new definition where all fields are optional.
+ * Other descriptor properties, including defaults, are kept as-is.
  *
  * @param definition - The source definition
  * @param newId - Unique ID for the partial definition
@@ -175,3 +184,125 @@ export function omitFields(
 
   return createBrandedInterface(newId, omittedSchema as InterfaceSchema);
 }
+
+// =============================================================================
+// createInterfaceUnion
+// =============================================================================
+
+/**
+ * Creates a discriminated union of branded interface definitions.
+ *
+ * `members` maps each discriminator value to the definition it selects, e.g.
+ * `createInterfaceUnion('Payment', 'method', { card: CardDef, bank: BankDef })`.
+ * create() and validate() dispatch on `data[discriminator]`; instances are
+ * branded with the selected member's ID. Unknown or missing discriminator
+ * values fail with an `invalid_discriminator` issue.
+ *
+ * The returned definition is frozen and registered; calling this function with
+ * an already-registered union ID returns the existing definition.
+ *
+ * @param unionId - Unique ID for the union
+ * @param discriminator - Field, declared by every member, whose value selects the member
+ * @param members - Member definitions keyed by discriminator value
+ * @returns A frozen BrandedInterfaceUnionDefinition
+ */
+export function createInterfaceUnion<T extends Record<string, unknown> = Record<string, unknown>>(
+  unionId: string,
+  discriminator: string,
+  members: Readonly<Record<string, BrandedInterfaceDefinition>>
+): BrandedInterfaceUnionDefinition<T> {
+  const existing = getInterfaceById(unionId);
+  if (existing && existing.kind === 'union') {
+    return existing.definition as unknown as BrandedInterfaceUnionDefinition<T>;
+  }
+
+  const values = Object.keys(members);
+  if (values.length === 0) {
+    throw new Error(`Union "${unionId}" must have at least one member`);
+  }
+  for (const value of values) {
+    const descriptor = members[value].schema[discriminator];
+    if (descriptor === undefined) {
+      throw new Error(
+        `Member "${members[value].id}" of union "${unionId}" does not declare discriminator field "${discriminator}"`
+      );
+    }
+    if (descriptor.type === 'literal' && descriptor.value !== value) {
+      throw new Error(
+        `Member "${members[value].id}" of union "${unionId}" declares discriminator "${discriminator}" as literal ${JSON.stringify(descriptor.value)} but is keyed by "${value}"`
+      );
+    }
+  }
+
+  // Looks up the member selected by the data, throwing when there is none
+  const selectMember = (data: unknown): BrandedInterfaceDefinition => {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      const actual = describeValueType(data);
+      throw new BrandedValidationError(unionId, [
+        {
+          path: [],
+          code: 'type_mismatch',
+          expected: 'object',
+          actual,
+          interfaceId: unionId,
+          message: `Expected a plain object for union "${unionId}" but got "${actual}"`,
+        },
+      ]);
+    }
+
+    const value = (data as Record<string, unknown>)[discriminator];
+    if (typeof value === 'string' && Object.hasOwn(members, value)) {
+      return members[value];
+    }
+    const expected = values.map((v) => `"${v}"`).join(', ');
+    throw new BrandedValidationError(unionId, [
+      {
+        path: [discriminator],
+        code: 'invalid_discriminator',
+        expected: values.join(' | '),
+        actual: describeValueType(value),
+        interfaceId: unionId,
+        message: `Field "${discriminator}" must be one of ${expected} to select a member of union "${unionId}"`,
+      },
+    ]);
+  };
+
+  // Returns the selected member without throwing
+  const findMember = (data: unknown): BrandedInterfaceDefinition | undefined => {
+    try {
+      return selectMember(data);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const definition = {
+    id: unionId,
+    discriminator,
+    members: Object.freeze({ ...members }),
+    create: (data: T, options?: InterfaceCreateOptions): BrandedInstance<T> =>
+      selectMember(data).create(data, options) as BrandedInstance<T>,
+    validate: (data: unknown): data is T => findMember(data)?.validate(data) ?? false,
+    createAsync: async (data: T, options?: InterfaceCreateOptions): Promise<BrandedInstance<T>> =>
+      (await selectMember(data).createAsync(data, options)) as BrandedInstance<T>,
+    validateAsync: async (data: unknown): Promise<boolean> =>
+      (await findMember(data)?.validateAsync(data)) ?? false,
+  } as Record<string, unknown>;
+
+  Object.defineProperty(definition, INTERFACE_UNION, {
+    value: unionId,
+    enumerable: false,
+    writable: false,
+    configurable: false,
+  });
+
+  const frozenDefinition = Object.freeze(definition) as unknown as BrandedInterfaceUnionDefinition<T>;
+
+  registerInterfaceEntry({
+    id: unionId,
+    kind: 'union',
+    definition: frozenDefinition as unknown as BrandedInterfaceUnionDefinition,
+  });
+
+  return frozenDefinition;
+}
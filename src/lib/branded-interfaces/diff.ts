@@ -23,11 +23,24 @@ import { createBrandedInterface } from './factory.js';
 /**
  * Checks whether two field descriptors have compatible types.
  * Compatible means same `type` value, and if `ref` is present, same `ref` value.
+ * Literals must have the same value; unions must have pairwise compatible
+ * members, in any order.
  */
 function areFieldsCompatible(a: FieldDescriptor, b: FieldDescriptor): boolean {
   if (a.type !== b.type) {
     return false;
   }
+  if (a.type === 'literal') {
+    return a.value === b.value;
+  }
+  if (a.type === 'union') {
+    const aMembers = a.members ?? [];
+    const bMembers = b.members ?? [];
+    return (
+      aMembers.every((member) => bMembers.some((other) => areFieldsCompatible(member, other))) &&
+      bMembers.every((member) => aMembers.some((other) => areFieldsCompatible(member, other)))
+    );
+  }
   if (a.ref !== undefined || b.ref !== undefined) {
     return a.ref === b.ref;
   }
@@ -0,0 +1,314 @@
+/**
+ * Structural equality and hashing of branded instances.
+ *
+ * `interfaceEquals()` compares two instances by interface ID and field values,
+ * guided by the registered schema; `interfaceHash()` derives a stable key that
+ * is equal for equal instances, for deduplication and caching.
+ */
+
+import {
+  INTERFACE_ID,
+  OPAQUE_ID,
+  BrandedInterfaceDefinition,
+  FieldDescriptor,
+  InterfaceSchema,
+} from './types.js';
+
+import { getInterfaceById } from './registry.js';
+
+// =============================================================================
+// Shared Helpers
+// =============================================================================
+
+/**
+ * Field descriptors of an object value: the declared schema, plus the value
+ * descriptor applied to every key of a record field.
+ */
+interface ObjectShape {
+  readonly schema: InterfaceSchema;
+  readonly values?: FieldDescriptor;
+}
+
+function brandOf(value: object): unknown {
+  return (value as Record<symbol, unknown>)[INTERFACE_ID];
+}
+
+function opaqueIdOf(value: object): unknown {
+  return (value as Record<symbol, unknown>)[OPAQUE_ID];
+}
+
+/**
+ * Branded instances are described by the schema registered for their ID
+ * (unregistered IDs fall back to structural comparison); plain objects by
+ * their field's descriptor.
+ */
+function shapeOf(value: object, descriptor: FieldDescriptor | undefined): ObjectShape {
+  const id = brandOf(value);
+  if (typeof id === 'string') {
+    const entry = getInterfaceById(id);
+    const definition = entry?.kind === 'interface' ? entry.definition : undefined;
+    return { schema: (definition as BrandedInterfaceDefinition | undefined)?.schema ?? {} };
+  }
+  if (descriptor?.type === 'object') {
+    return { schema: descriptor.properties ?? {} };
+  }
+  if (descriptor?.type === 'record') {
+    return { schema: {}, values: descriptor.values };
+  }
+  return { schema: {} };
+}
+
+function fieldDescriptor(shape: ObjectShape, key: string): FieldDescriptor | undefined {
+  return Object.prototype.hasOwnProperty.call(shape.schema, key)
+    ? shape.schema[key]
+    : shape.values;
+}
+
+/**
+ * Keys to compare, sorted: the declared fields plus any undeclared keys kept
+ * by `unknownKeys: 'passthrough'` or held by records.
+ */
+function fieldKeys(shape: ObjectShape, ...values: object[]): string[] {
+  const keys = new Set(Object.keys(shape.schema));
+  for (const value of values) {
+    for (const key of Object.keys(value)) {
+      keys.add(key);
+    }
+  }
+  return [...keys].sort();
+}
+
+/**
+ * Descriptor of the element at `index` of an array or tuple field.
+ */
+function itemDescriptor(
+  descriptor: FieldDescriptor | undefined,
+  index: number
+): FieldDescriptor | undefined {
+  if (descriptor?.type === 'array') {
+    return descriptor.items;
+  }
+  if (descriptor?.type === 'tuple') {
+    const elements = descriptor.elements ?? [];
+    return index < elements.length ? elements[index] : descriptor.rest;
+  }
+  return undefined;
+}
+
+function isBrandedInstance(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && typeof brandOf(value) === 'string';
+}
+
+// =============================================================================
+// interfaceEquals
+// =============================================================================
+
+/**
+ * Checks whether two branded instances are structurally equal: same interface
+ * ID and equal field values.
+ *
+ * Values are compared according to the schema — nested objects, arrays,
+ * tuples and records element by element, nested branded instances by their
+ * own ID and schema. Key order does not matter, an undefined field equals an
+ * absent one, `NaN` equals `NaN`, dates compare by time and byte arrays by
+ * content. Opaque values compare by identity, since their contents are hidden.
+ * Values that are not branded interface instances are never equal.
+ */
+export function interfaceEquals(a: unknown, b: unknown): boolean {
+  if (!isBrandedInstance(a) || !isBrandedInstance(b)) {
+    return false;
+  }
+  return valuesEqual(a, b, undefined, new Set());
+}
+
+function valuesEqual(
+  a: unknown,
+  b: unknown,
+  descriptor: FieldDescriptor | undefined,
+  seen: Set<object>
+): boolean {
+  if (a === b || (Number.isNaN(a) && Number.isNaN(b))) {
+    return true;
+  }
+  if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) {
+    return false;
+  }
+  // A value revisited on the current path is assumed equal (cyclic data)
+  if (seen.has(a)) {
+    return true;
+  }
+  seen.add(a);
+  const result = objectsEqual(a, b, descriptor, seen);
+  seen.delete(a);
+  return result;
+}
+
+function objectsEqual(
+  a: object,
+  b: object,
+  descriptor: FieldDescriptor | undefined,
+  seen: Set<object>
+): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && Object.is(a.getTime(), b.getTime());
+  }
+  if (a instanceof Uint8Array || b instanceof Uint8Array) {
+    return (
+      a instanceof Uint8Array &&
+      b instanceof Uint8Array &&
+      a.length === b.length &&
+      a.every((byte, i) => byte === b[i])
+    );
+  }
+  if (opaqueIdOf(a) !== undefined || opaqueIdOf(b) !== undefined) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => valuesEqual(item, b[i], itemDescriptor(descriptor, i), seen))
+    );
+  }
+  if (brandOf(a) !== brandOf(b)) {
+    return false;
+  }
+
+  const shape = shapeOf(a, descriptor);
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return fieldKeys(shape, a, b).every((key) =>
+    valuesEqual(left[key], right[key], fieldDescriptor(shape, key), seen)
+  );
+}
+
+/**
+ * Indexes of the items that equal an earlier item of the array, compared as
+ * interfaceEquals() compares field values — the structural uniqueness JSON
+ * Schema's `uniqueItems` prescribes. Backs the `uniqueItems` constraint.
+ * @internal
+ */
+export function duplicateItemIndexes(
+  items: ReadonlyArray<unknown>,
+  descriptor: FieldDescriptor | undefined
+): number[] {
+  // Objects are bucketed by canonical form; a full comparison confirms each match
+  const buckets = new Map<unknown, unknown[]>();
+  const duplicates: number[] = [];
+  items.forEach((item, index) => {
+    const key =
+      typeof item === 'object' && item !== null ? canonicalize(item, descriptor, new Set()) : item;
+    const bucket = buckets.get(key);
+    if (bucket === undefined) {
+      buckets.set(key, [item]);
+    } else if (bucket.some((other) => valuesEqual(other, item, descriptor, new Set()))) {
+      duplicates.push(index);
+    } else {
+      bucket.push(item);
+    }
+  });
+  return duplicates;
+}
+
+// =============================================================================
+// interfaceHash
+// =============================================================================
+
+/**
+ * Computes a stable hash of a branded instance: a 16-digit hex string that is
+ * the same for every pair of instances interfaceEquals() considers equal, in
+ * any process, so it can serve as a Map key or cache key. Distinct instances
+ * may collide (rarely), so confirm matches with interfaceEquals() where that
+ * matters. Opaque values contribute only their type ID.
+ *
+ * @throws Error if the value is not a branded interface instance
+ */
+export function interfaceHash(instance: unknown): string {
+  if (!isBrandedInstance(instance)) {
+    throw new Error('interfaceHash() expects a branded interface instance');
+  }
+  return digest(canonicalize(instance, undefined, new Set()));
+}
+
+/**
+ * Serializes a value to a canonical string that is identical for values
+ * interfaceEquals() considers equal.
+ */
+function canonicalize(
+  value: unknown,
+  descriptor: FieldDescriptor | undefined,
+  seen: Set<object>
+): string {
+  switch (typeof value) {
+    case 'undefined':
+      return 'u';
+    case 'boolean':
+      return value ? 't' : 'f';
+    case 'number':
+      // -0 and 0 both print as "0"
+      return `n${value}`;
+    case 'bigint':
+      return `i${value}`;
+    case 'string':
+      return JSON.stringify(value);
+    case 'symbol':
+    case 'function':
+      return typeof value;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return 'null';
+  }
+  if (seen.has(value)) {
+    return 'cycle';
+  }
+  if (value instanceof Date) {
+    return `D${value.getTime()}`;
+  }
+  if (value instanceof Uint8Array) {
+    return `B${Array.from(value, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+  }
+  const opaqueId = opaqueIdOf(value);
+  if (opaqueId !== undefined) {
+    return `O${JSON.stringify(opaqueId)}`;
+  }
+
+  seen.add(value);
+  let result: string;
+  if (Array.isArray(value)) {
+    const items = value.map((item, i) => canonicalize(item, itemDescriptor(descriptor, i), seen));
+    result = `[${items.join(',')}]`;
+  } else {
+    const shape = shapeOf(value, descriptor);
+    const record = value as Record<string, unknown>;
+    const fields = fieldKeys(shape, value)
+      .filter((key) => record[key] !== undefined)
+      .map((key) => {
+        const field = canonicalize(record[key], fieldDescriptor(shape, key), seen);
+        return `${JSON.stringify(key)}:${field}`;
+      });
+    const id = brandOf(value);
+    result = `${typeof id === 'string' ? JSON.stringify(id) : ''}{${fields.join(',')}}`;
+  }
+  seen.delete(value);
+  return result;
+}
+
+/**
+ * 64-bit string hash built from two multiplicative 32-bit lanes (cyrb53
+ * mixing), rendered as 16 hex digits.
+ */
+function digest(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,73 @@
+/**
+ * Structured validation errors for branded interfaces.
+ *
+ * `BrandedValidationError` carries a machine-readable list of issues so that
+ * callers can map failures to fields without parsing error messages.
+ */
+
+import type { ValidationIssue, ValidationPathSegment } from './types.js';
+
+// =============================================================================
+// Path Formatting
+// =============================================================================
+
+/**
+ * Formats issue path segments as a field reference, e.g. `['tags', 2]` → `tags[2]`
+ * and `['address', 'zip']` → `address.zip`. The empty path formats as `''`.
+ */
+export function formatIssuePath(path: ReadonlyArray<ValidationPathSegment>): string {
+  let result = '';
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      result += `[${segment}]`;
+    } else {
+      result += result === '' ? segment : `.${segment}`;
+    }
+  }
+  return result;
+}
+
+// =============================================================================
+// BrandedValidationError
+// =============================================================================
+
+/**
+ * Error thrown when data fails validation against a branded interface schema.
+ *
+ * With a single issue the message is that issue's message; with several, the
+ * message lists every issue on its own line.
+ */
+export class BrandedValidationError extends Error {
+  readonly interfaceId: string;
+  readonly issues: ReadonlyArray<ValidationIssue>;
+
+  constructor(interfaceId: string, issues: ReadonlyArray<ValidationIssue>) {
+    super(
+      issues.length === 1
+        ? issues[0].message
+        : `Interface "${interfaceId}" failed validation with ${issues.length} errors:\n` +
+            issues.map((issue) => `  - ${issue.message}`).join('\n')
+    );
+    this.name = 'BrandedValidationError';
+    this.interfaceId = interfaceId;
+    this.issues = Object.freeze([...issues]);
+  }
+}
+
+/**
+ * Checks whether a value is a BrandedValidationError.
+ *
+ * Falls back to a structural check so that errors thrown by another copy of
+ * the library (a different bundle) are recognized as well.
+ */
+export function isBrandedValidationError(value: unknown): value is BrandedValidationError {
+  if (value instanceof BrandedValidationError) {
+    return true;
+  }
+  return (
+    value instanceof Error &&
+    value.name === 'BrandedValidationError' &&
+    typeof (value as BrandedValidationError).interfaceId === 'string' &&
+    Array.isArray((value as BrandedValidationError).issues)
+  );
+}
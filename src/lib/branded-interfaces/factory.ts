@@ -12,237 +12,36 @@ import {
   PRIMITIVE_ID,
   PRIMITIVE_BASE_TYPE,
   InterfaceSchema,
-  FieldDescriptor,
   BrandedInterfaceDefinition,
   BrandedInstance,
   BrandedPrimitiveDefinition,
+  BrandedInterfaceOptions,
+  InterfaceCreateOptions,
+  InterfaceRefinement,
+  AsyncInterfaceRefinement,
+  InterfaceEventType,
+  InferDefinitionInstance,
   PrimitiveBaseType,
+  PrimitiveValueType,
+  BrandedPrimitiveValue,
+  ValidationPathSegment,
 } from './types.js';
 
+import { BrandedValidationError, formatIssuePath, isBrandedValidationError } from './errors.js';
+
 import {
   getInterfaceById,
   registerInterfaceEntry,
 } from './registry.js';
 
-import { getEnumById } from '../registry.js';
-import { ENUM_VALUES } from '../types.js';
 import { notifyWatchers } from './watch.js';
-
-// =============================================================================
-// Field Validation
-// =============================================================================
-
-/**
- * Validates a single field value against its descriptor.
- * Throws a descriptive error if validation fails.
- */
-function validateField(
-  fieldName: string,
-  value: unknown,
-  descriptor: FieldDescriptor,
-  interfaceId: string
-): void {
-  // Handle optional fields: allow undefined or missing
-  if (descriptor.optional && value === undefined) {
-    return;
-  }
-
-  // Handle nullable fields: allow null
-  if (descriptor.nullable && value === null) {
-    return;
-  }
-
-  // Required field missing check
-  if (value === undefined || value === null) {
-    if (!descriptor.optional && value === undefined) {
-      throw new Error(
-        `Field "${fieldName}" is required but missing in interface "${interfaceId}"`
-      );
-    }
-    if (!descriptor.nullable && value === null) {
-      throw new Error(
-        `Field "${fieldName}" expected type "${descriptor.type}" but got "null" in interface "${interfaceId}"`
-      );
-    }
-  }
-
-  // Type checking based on descriptor type
-  switch (descriptor.type) {
-    case 'string':
-    case 'number':
-    case 'boolean': {
-      if (typeof value !== descriptor.type) {
-        throw new Error(
-          `Field "${fieldName}" expected type "${descriptor.type}" but got "${typeof value}" in interface "${interfaceId}"`
-        );
-      }
-      break;
-    }
-    case 'object': {
-      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-        const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
-        throw new Error(
-          `Field "${fieldName}" expected type "object" but got "${actual}" in interface "${interfaceId}"`
-        );
-      }
-      break;
-    }
-    case 'array': {
-      if (!Array.isArray(value)) {
-        throw new Error(
-          `Field "${fieldName}" expected type "array" but got "${typeof value}" in interface "${interfaceId}"`
-        );
-      }
-      // Validate each element against items descriptor if present
-      if (descriptor.items) {
-        for (let i = 0; i < (value as unknown[]).length; i++) {
-          validateField(
-            `${fieldName}[${i}]`,
-            (value as unknown[])[i],
-            descriptor.items,
-            interfaceId
-          );
-        }
-      }
-      break;
-    }
-    case 'branded-enum': {
-      validateBrandedEnumRef(fieldName, value, descriptor, interfaceId);
-      break;
-    }
-    case 'branded-interface': {
-      validateBrandedInterfaceRef(fieldName, value, descriptor, interfaceId);
-      break;
-    }
-    case 'branded-primitive': {
-      validateBrandedPrimitiveRef(fieldName, value, descriptor, interfaceId);
-      break;
-    }
-  }
-
-  // Run custom validation predicate if present
-  if (descriptor.validate && !descriptor.validate(value)) {
-    throw new Error(
-      `Field "${fieldName}" failed custom validation in interface "${interfaceId}"`
-    );
-  }
-}
-
-/**
- * Validates a field value against a branded-interface reference.
- */
-function validateBrandedEnumRef(
-  fieldName: string,
-  value: unknown,
-  descriptor: FieldDescriptor,
-  interfaceId: string
-): void {
-  const refId = descriptor.ref;
-  if (!refId) {
-    throw new Error(
-      `Field "${fieldName}" has type "branded-enum" but no ref specified in interface "${interfaceId}"`
-    );
-  }
-
-  const enumObj = getEnumById(refId);
-  if (!enumObj) {
-    throw new Error(
-      `Field "${fieldName}" references enum "${refId}" which is not registered, in interface "${interfaceId}"`
-    );
-  }
-
-  const values = enumObj[ENUM_VALUES] as Set<string>;
-  if (!values.has(value as string)) {
-    throw new Error(
-      `Field "${fieldName}" failed validation against referenced type "${refId}" in interface "${interfaceId}"`
-    );
-  }
-}
-
-/**
- * Validates a field value against a branded-interface reference.
- */
-function validateBrandedInterfaceRef(
-  fieldName: string,
-  value: unknown,
-  descriptor: FieldDescriptor,
-  interfaceId: string
-): void {
-  const refId = descriptor.ref;
-  if (!refId) {
-    throw new Error(
-      `Field "${fieldName}" has type "branded-interface" but no ref specified in interface "${interfaceId}"`
-    );
-  }
-
-  const entry = getInterfaceById(refId);
-  if (!entry || entry.kind !== 'interface') {
-    throw new Error(
-      `Field "${fieldName}" references interface "${refId}" which is not registered, in interface "${interfaceId}"`
-    );
-  }
-
-  // Check that the value has the matching INTERFACE_ID symbol
-  if (
-    typeof value !== 'object' ||
-    value === null ||
-    (value as Record<symbol, unknown>)[INTERFACE_ID] !== refId
-  ) {
-    throw new Error(
-      `Field "${fieldName}" failed validation against referenced type "${refId}" in interface "${interfaceId}"`
-    );
-  }
-}
-
-/**
- * Validates a field value against a branded-primitive reference.
- */
-function validateBrandedPrimitiveRef(
-  fieldName: string,
-  value: unknown,
-  descriptor: FieldDescriptor,
-  interfaceId: string
-): void {
-  const refId = descriptor.ref;
-  if (!refId) {
-    throw new Error(
-      `Field "${fieldName}" has type "branded-primitive" but no ref specified in interface "${interfaceId}"`
-    );
-  }
-
-  const entry = getInterfaceById(refId);
-  if (!entry || entry.kind !== 'primitive') {
-    throw new Error(
-      `Field "${fieldName}" references primitive "${refId}" which is not registered, in interface "${interfaceId}"`
-    );
-  }
-
-  const primDef = entry.definition as BrandedPrimitiveDefinition;
-  if (!primDef.validate(value)) {
-    throw new Error(
-      `Field "${fieldName}" failed validation against referenced type "${refId}" in interface "${interfaceId}"`
-    );
-  }
-}
-
-
-// =============================================================================
-// Schema Validation (all fields)
-// =============================================================================
-
-/**
- * Validates all fields of a data object against an interface schema.
- * Throws on the first validation failure with a descriptive error.
- */
-function validateSchema(
-  data: Record<string, unknown>,
-  schema: InterfaceSchema,
-  interfaceId: string
-): void {
-  for (const [fieldName, descriptor] of Object.entries(schema)) {
-    validateField(fieldName, data[fieldName], descriptor, interfaceId);
-  }
-}
+import {
+  compileSchema,
+  setCompiledParser,
+  CompiledParser,
+  SchemaValidationOptions,
+} from './compiler.js';
+import { schemaHasAsyncValidators, brandInstance } from './validation.js';
 
 // =============================================================================
 // createBrandedInterface
@@ -257,13 +56,33 @@ function validateSchema(
  *
  * @param interfaceId - Unique identifier for this interface
  * @param schema - Field schema describing the interface shape
- * @param options - Optional configuration (version number)
+ * @param options - Optional configuration (version number, default error collection,
+ *   nested auto-branding, coercion and deep-freeze modes, unknown-key handling,
+ *   interface-level refinements)
  * @returns A frozen BrandedInterfaceDefinition
+ *
+ * Without explicit type arguments, the instance type of a schema declared
+ * `as const` is inferred from it (see InferInstance), and a literal
+ * `interfaceId` becomes the definition's `Id` type. With an explicit instance
+ * type, pass the ID type as well (`<User, 'User'>`) to keep it literal.
  */
+export function createBrandedInterface<S extends InterfaceSchema, Id extends string = string>(
+  interfaceId: Id,
+  schema: S,
+  options?: BrandedInterfaceOptions<InferDefinitionInstance<S>>
+): BrandedInterfaceDefinition<InferDefinitionInstance<S>, Id>;
+export function createBrandedInterface<
+  T extends Record<string, unknown>,
+  Id extends string = string,
+>(
+  interfaceId: Id,
+  schema: InterfaceSchema,
+  options?: BrandedInterfaceOptions<T>
+): BrandedInterfaceDefinition<T, Id>;
 export function createBrandedInterface<T extends Record<string, unknown>>(
   interfaceId: string,
   schema: InterfaceSchema,
-  options?: { version?: number }
+  options?: BrandedInterfaceOptions<T>
 ): BrandedInterfaceDefinition<T> {
   // Idempotent: return existing definition if already registered
   const existing = getInterfaceById(interfaceId);
@@ -272,46 +91,119 @@ export function createBrandedInterface<T extends Record<string, unknown>>(
   }
 
   const version = options?.version ?? 1;
+  const collectAllByDefault = options?.collectAllErrors ?? false;
+  const autoBrandByDefault = options?.autoBrand ?? false;
+  const coerceByDefault = options?.coerce ?? false;
+  const deepFreeze = options?.deepFreeze ?? isDevelopment();
+  const trustedSampleRate = isDevelopment() ? (options?.trustedSampleRate ?? 0) : 0;
+  const unknownKeys = options?.unknownKeys;
+  const refinements = nonEmpty(options?.refinements);
+  const asyncRefinements = nonEmpty(options?.asyncRefinements);
+  const requiresAsync = asyncRefinements !== undefined || schemaHasAsyncValidators(schema);
+
+  const schemaOptions = (createOptions?: InterfaceCreateOptions): SchemaValidationOptions => ({
+    collectAll: createOptions?.collectAllErrors ?? collectAllByDefault,
+    autoBrand: createOptions?.autoBrand ?? autoBrandByDefault,
+    coerce: createOptions?.coerce ?? coerceByDefault,
+    deepFreeze,
+  });
 
-  // Build create() function
-  const create = (data: T): BrandedInstance<T> => {
-    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+  // Compiled on first use and shared by every method that validates;
+  // refinements are typed against T, the compiled validators see plain records
+  const compiled = compileSchema(schema, interfaceId, {
+    unknownKeys,
+    refinements: refinements as ReadonlyArray<InterfaceRefinement> | undefined,
+    asyncRefinements: asyncRefinements as ReadonlyArray<AsyncInterfaceRefinement> | undefined,
+  });
+
+  const assertSync = (method: string): void => {
+    if (requiresAsync) {
       throw new Error(
-        `Expected a plain object for interface "${interfaceId}" but got "${Array.isArray(data) ? 'array' : data === null ? 'null' : typeof data}"`
+        `Interface "${interfaceId}" declares async validators; use ${method}Async() instead of ${method}()`
       );
     }
+  };
 
-    validateSchema(data as Record<string, unknown>, schema, interfaceId);
+  // Create a copy with Symbol metadata attached as non-enumerable
+  const brand = (
+    output: Record<string, unknown>,
+    eventType: InterfaceEventType = 'create'
+  ): BrandedInstance<T> => {
+    const frozen = brandInstance(output as T, interfaceId, schema, deepFreeze);
+    notifyWatchers(interfaceId, eventType, frozen);
+    return frozen;
+  };
 
-    // Create a copy with Symbol metadata attached as non-enumerable
-    const instance = { ...data } as T & Record<symbol, unknown>;
+  // Build parse() — create() without throwing for invalid data, for safeParseInterface()
+  const parse: CompiledParser = (data, createOptions) => {
+    assertSync('create');
+    const result = compiled.validate(data, schemaOptions(createOptions));
+    if (!result.success) {
+      return { success: false, error: new BrandedValidationError(interfaceId, result.issues) };
+    }
+    return { success: true, value: brand(result.value) };
+  };
 
-    Object.defineProperty(instance, INTERFACE_ID, {
-      value: interfaceId,
-      enumerable: false,
-      writable: false,
-      configurable: false,
-    });
+  // Build create() function
+  const create = (data: T, createOptions?: InterfaceCreateOptions): BrandedInstance<T> => {
+    const result = parse(data, createOptions);
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value as BrandedInstance<T>;
+  };
 
-    Object.defineProperty(instance, INTERFACE_SCHEMA, {
-      value: schema,
-      enumerable: false,
-      writable: false,
-      configurable: false,
-    });
+  // Build validate() function — same checks as create() but returns boolean;
+  // async validators cannot be satisfied synchronously, so such definitions never pass.
+  // Never coerces: a true result must mean `data` itself already matches T
+  const validate = (data: unknown): data is T => {
+    if (requiresAsync || typeof data !== 'object' || data === null || Array.isArray(data)) {
+      return false;
+    }
+    // Invalid data does not throw; errors thrown by predicates count as invalid
+    try {
+      const result = compiled.validate(data, {
+        ...schemaOptions(),
+        collectAll: false,
+        transform: false,
+        coerce: false,
+      });
+      if (!result.success) {
+        return false;
+      }
+      notifyWatchers(interfaceId, 'validate', data);
+      return true;
+    } catch {
+      return false;
+    }
+  };
 
-    const frozen = Object.freeze(instance) as BrandedInstance<T>;
-    notifyWatchers(interfaceId, 'create', frozen);
-    return frozen;
+  // Build createAsync() and validateAsync() — also run async validators
+  const createAsync = async (
+    data: T,
+    createOptions?: InterfaceCreateOptions
+  ): Promise<BrandedInstance<T>> => {
+    const result = await compiled.validateAsync(data, schemaOptions(createOptions));
+    if (!result.success) {
+      throw new BrandedValidationError(interfaceId, result.issues);
+    }
+    return brand(result.value);
   };
 
-  // Build validate() function — same checks as create() but returns boolean
-  const validate = (data: unknown): data is T => {
+  const validateAsync = async (data: unknown): Promise<boolean> => {
     if (typeof data !== 'object' || data === null || Array.isArray(data)) {
       return false;
     }
     try {
-      validateSchema(data as Record<string, unknown>, schema, interfaceId);
+      const result = await compiled.validateAsync(data, {
+        ...schemaOptions(),
+        collectAll: false,
+        transform: false,
+        coerce: false,
+      });
+      if (!result.success) {
+        return false;
+      }
       notifyWatchers(interfaceId, 'validate', data);
       return true;
     } catch {
@@ -319,13 +211,81 @@ export function createBrandedInterface<T extends Record<string, unknown>>(
     }
   };
 
+  // Build brandTrusted() — brands without validating; samples validation in development
+  const brandTrusted = (data: T): BrandedInstance<T> => {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error(`brandTrusted() expects a plain object for interface "${interfaceId}"`);
+    }
+    if (!requiresAsync && trustedSampleRate > 0 && Math.random() < trustedSampleRate) {
+      const result = compiled.validate(data, {
+        ...schemaOptions(),
+        collectAll: true,
+        transform: false,
+      });
+      if (!result.success) {
+        throw new BrandedValidationError(interfaceId, result.issues);
+      }
+    }
+    return brand(data, 'trusted');
+  };
+
+  // Build update() and setIn() — validated copies of an existing instance
+  const assertInstance = (instance: unknown, method: string): void => {
+    if (
+      typeof instance !== 'object' ||
+      instance === null ||
+      (instance as Record<symbol, unknown>)[INTERFACE_ID] !== interfaceId
+    ) {
+      throw new Error(`${method}() expects an instance of interface "${interfaceId}"`);
+    }
+  };
+
+  const update = (
+    instance: BrandedInstance<T>,
+    patch: Partial<T>,
+    createOptions?: InterfaceCreateOptions
+  ): BrandedInstance<T> => {
+    assertInstance(instance, 'update');
+    const base = { ...instance } as Record<string, unknown>;
+    const result = compiled.validatePatch(base, patch, schemaOptions(createOptions));
+    if (!result.success) {
+      throw new BrandedValidationError(interfaceId, result.issues);
+    }
+    return brand(result.value, 'update');
+  };
+
+  const setIn = (
+    instance: BrandedInstance<T>,
+    path: ReadonlyArray<ValidationPathSegment>,
+    value: unknown,
+    createOptions?: InterfaceCreateOptions
+  ): BrandedInstance<T> => {
+    assertInstance(instance, 'setIn');
+    const key = path[0];
+    if (typeof key !== 'string') {
+      throw new Error(`setIn() expects a path starting with a field of interface "${interfaceId}"`);
+    }
+    const current = (instance as Record<string, unknown>)[key];
+    const replaced = replaceAtPath(interfaceId, current, path, 1, value, createOptions);
+    const patch = { [key]: replaced } as Partial<T>;
+    return update(instance, patch, createOptions);
+  };
+
   // Build the definition object
   const definition = {
     id: interfaceId,
     schema,
     version,
+    ...(unknownKeys !== undefined ? { unknownKeys } : {}),
+    ...(refinements !== undefined ? { refinements } : {}),
+    ...(asyncRefinements !== undefined ? { asyncRefinements } : {}),
     create,
     validate,
+    createAsync,
+    validateAsync,
+    update,
+    setIn,
+    brandTrusted,
   } as Record<string, unknown>;
 
   // Attach non-enumerable Symbol metadata to the definition
@@ -351,6 +311,7 @@ export function createBrandedInterface<T extends Record<string, unknown>>(
   });
 
   const frozenDefinition = Object.freeze(definition) as unknown as BrandedInterfaceDefinition<T>;
+  setCompiledParser(frozenDefinition, parse);
 
   // Register in the interface registry
   registerInterfaceEntry({
@@ -362,6 +323,73 @@ export function createBrandedInterface<T extends Record<string, unknown>>(
   return frozenDefinition;
 }
 
+/**
+ * Returns a copy of `target` — the value at `path[0..depth)` — with the value
+ * at the rest of the path replaced. Branded instances along the path are
+ * rebuilt through their definition's setIn(), so they are re-validated and keep
+ * their brand; arrays and plain objects are shallow-copied. Their validation
+ * errors are rethrown for the root interface `rootId`, with root-relative paths.
+ */
+function replaceAtPath(
+  rootId: string,
+  target: unknown,
+  path: ReadonlyArray<ValidationPathSegment>,
+  depth: number,
+  value: unknown,
+  options?: InterfaceCreateOptions
+): unknown {
+  if (depth === path.length) {
+    return value;
+  }
+  if (typeof target !== 'object' || target === null) {
+    throw new Error(
+      `Cannot set "${formatIssuePath(path)}": "${formatIssuePath(path.slice(0, depth))}" ` +
+        'is not an object or array'
+    );
+  }
+
+  const brandId = (target as Record<symbol, unknown>)[INTERFACE_ID];
+  const entry = typeof brandId === 'string' ? getInterfaceById(brandId) : undefined;
+  if (entry?.kind === 'interface') {
+    const nested = entry.definition as BrandedInterfaceDefinition;
+    const instance = target as BrandedInstance<Record<string, unknown>>;
+    try {
+      return nested.setIn(instance, path.slice(depth), value, options);
+    } catch (error) {
+      if (!isBrandedValidationError(error)) {
+        throw error;
+      }
+      // Report nested failures relative to the root instance, as a full revalidation would
+      const prefix = path.slice(0, depth);
+      const issues = error.issues.map((issue) => ({ ...issue, path: [...prefix, ...issue.path] }));
+      throw new BrandedValidationError(rootId, issues);
+    }
+  }
+
+  const key = path[depth];
+  const copy = (Array.isArray(target) ? [...target] : { ...target }) as Record<
+    ValidationPathSegment,
+    unknown
+  >;
+  copy[key] = replaceAtPath(rootId, copy[key], path, depth + 1, value, options);
+  return copy;
+}
+
+/**
+ * Whether the library runs outside production (`NODE_ENV !== 'production'`).
+ * Environments without `process` count as production.
+ */
+function isDevelopment(): boolean {
+  return typeof process !== 'undefined' && process.env?.['NODE_ENV'] !== 'production';
+}
+
+/**
+ * Copies a list of refinements, or returns undefined when there are none.
+ */
+function nonEmpty<R>(list: ReadonlyArray<R> | undefined): ReadonlyArray<R> | undefined {
+  return list && list.length > 0 ? Object.freeze([...list]) : undefined;
+}
+
 // =============================================================================
 // createBrandedPrimitive
 // =============================================================================
@@ -377,7 +405,24 @@ export function createBrandedInterface<T extends Record<string, unknown>>(
  * @param baseType - The base JavaScript type ('string', 'number', or 'boolean')
  * @param validateFn - Optional validation predicate for refinement types
  * @returns A frozen BrandedPrimitiveDefinition
+ *
+ * Without explicit type arguments, the value type follows `baseType` and a
+ * literal `primitiveId` becomes the definition's `Id` type, so values created
+ * by different primitives are not interchangeable.
  */
+export function createBrandedPrimitive<B extends PrimitiveBaseType, Id extends string = string>(
+  primitiveId: Id,
+  baseType: B,
+  validateFn?: (value: PrimitiveValueType<B>) => boolean
+): BrandedPrimitiveDefinition<PrimitiveValueType<B>, Id>;
+export function createBrandedPrimitive<
+  T extends string | number | boolean,
+  Id extends string = string,
+>(
+  primitiveId: Id,
+  baseType: PrimitiveBaseType,
+  validateFn?: (value: T) => boolean
+): BrandedPrimitiveDefinition<T, Id>;
 export function createBrandedPrimitive<T extends string | number | boolean>(
   primitiveId: string,
   baseType: PrimitiveBaseType,
@@ -390,7 +435,7 @@ export function createBrandedPrimitive<T extends string | number | boolean>(
   }
 
   // Build create() function
-  const create = (value: T): T & { readonly __brand: string } => {
+  const create = (value: T): BrandedPrimitiveValue<T> => {
     if (typeof value !== baseType) {
       throw new Error(
         `Primitive "${primitiveId}" expected type "${baseType}" but got "${typeof value}"`
@@ -404,7 +449,7 @@ export function createBrandedPrimitive<T extends string | number | boolean>(
       );
     }
 
-    return value as T & { readonly __brand: string };
+    return value as BrandedPrimitiveValue<T>;
   };
 
   // Build validate() function — returns boolean
@@ -7,12 +7,19 @@
 
 import {
   INTERFACE_ID,
+  INTERFACE_UNION,
   BrandedInterfaceDefinition,
+  BrandedInterfaceUnionDefinition,
   BrandedInstance,
   BrandedPrimitiveDefinition,
+  BrandedPrimitiveValue,
+  InterfaceCreateOptions,
   InterfaceSafeParseResult,
 } from './types.js';
 
+import { formatIssuePath, isBrandedValidationError } from './errors.js';
+import { getCompiledParser } from './compiler.js';
+
 // =============================================================================
 // isOfInterface
 // =============================================================================
@@ -21,16 +28,45 @@ import {
  * Type guard that checks if a value is a branded instance of the given interface definition.
  *
  * Checks that the value is a non-null, non-array object with an INTERFACE_ID symbol
- * matching the definition's ID.
+ * matching the definition's ID — or, for a union, the ID of any of its members.
  */
-export function isOfInterface<T extends Record<string, unknown>>(
+export function isOfInterface<T extends Record<string, unknown>, Id extends string = string>(
   value: unknown,
-  definition: BrandedInterfaceDefinition<T>
-): value is BrandedInstance<T> {
+  definition: BrandedInterfaceDefinition<T, Id> | BrandedInterfaceUnionDefinition<T>
+): value is BrandedInstance<T, Id> {
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
     return false;
   }
-  return (value as Record<symbol, unknown>)[INTERFACE_ID] === definition.id;
+  return hasDefinitionBrand(value, definition);
+}
+
+/**
+ * Checks whether an object carries the brand of a definition or of a union member.
+ */
+function hasDefinitionBrand<T extends Record<string, unknown>>(
+  value: object,
+  definition: BrandedInterfaceDefinition<T> | BrandedInterfaceUnionDefinition<T>
+): boolean {
+  const id = (value as Record<symbol, unknown>)[INTERFACE_ID];
+  if (isInterfaceUnion(definition)) {
+    return Object.values(definition.members).some((member) => member.id === id);
+  }
+  return id === definition.id;
+}
+
+// =============================================================================
+// isInterfaceUnion
+// =============================================================================
+
+/**
+ * Type guard that checks if a value is a union definition created by createInterfaceUnion().
+ */
+export function isInterfaceUnion(value: unknown): value is BrandedInterfaceUnionDefinition {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Record<symbol, unknown>)[INTERFACE_UNION] === 'string'
+  );
 }
 
 // =============================================================================
@@ -41,13 +77,13 @@ export function isOfInterface<T extends Record<string, unknown>>(
  * Asserts that a value is a branded instance of the given interface definition.
  * Throws a descriptive error if the assertion fails.
  */
-export function assertOfInterface<T extends Record<string, unknown>>(
+export function assertOfInterface<T extends Record<string, unknown>, Id extends string = string>(
   value: unknown,
-  definition: BrandedInterfaceDefinition<T>
-): BrandedInstance<T> {
+  definition: BrandedInterfaceDefinition<T, Id> | BrandedInterfaceUnionDefinition<T>
+): BrandedInstance<T, Id> {
   if (!isOfInterface(value, definition)) {
     throw new Error(
-      `Value is not a branded instance of interface "${definition.id}"`
+      `Value is not a branded instance of ${isInterfaceUnion(definition) ? 'union' : 'interface'} "${definition.id}"`
     );
   }
   return value;
@@ -67,53 +103,40 @@ export function assertOfInterface<T extends Record<string, unknown>>(
  * - If the value is already a branded instance: success with the value
  * - If the value is a plain object matching the schema: validates, brands, and returns success
  * - If validation fails: failure with code 'FIELD_VALIDATION_FAILED' and field errors
+ *
+ * Pass `{ collectAllErrors: true }` (or set it on the definition) to receive every
+ * failing field in `fieldErrors` rather than only the first. The structured
+ * issues behind those field errors are available as `error.issues`.
+ *
+ * Pass `{ coerce: true }` to convert loosely typed input (such as query-string
+ * or form values) to the schema's field types before validation.
+ *
+ * Union definitions are accepted as well: the member is selected by the
+ * discriminator field and the value is branded with the member's ID.
  */
-export function safeParseInterface<T extends Record<string, unknown>>(
+export function safeParseInterface<T extends Record<string, unknown>, Id extends string = string>(
   value: unknown,
-  definition: BrandedInterfaceDefinition<T>
-): InterfaceSafeParseResult<BrandedInstance<T>> {
+  definition: BrandedInterfaceDefinition<T, Id> | BrandedInterfaceUnionDefinition<T>,
+  options?: InterfaceCreateOptions
+): InterfaceSafeParseResult<BrandedInstance<T, Id>> {
   try {
-    // Check that definition is a valid BrandedInterfaceDefinition
-    if (
-      !definition ||
-      typeof definition !== 'object' ||
-      (definition as unknown as Record<symbol, unknown>)[INTERFACE_ID] === undefined
-    ) {
-      return {
-        success: false,
-        error: {
-          message: 'Invalid definition: not a BrandedInterfaceDefinition',
-          code: 'INVALID_DEFINITION',
-          input: value,
-        },
-      };
+    const early = checkParseInput(value, definition);
+    if (early) {
+      return early;
     }
 
-    // Check that value is an object
-    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-      const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
-      return {
-        success: false,
-        error: {
-          message: `Expected an object but got "${actual}"`,
-          code: 'INVALID_VALUE_TYPE',
-          input: value,
-          interfaceId: definition.id,
-        },
-      };
-    }
-
-    // If already a branded instance of this definition, return success
-    if ((value as Record<symbol, unknown>)[INTERFACE_ID] === definition.id) {
-      return {
-        success: true,
-        value: value as BrandedInstance<T>,
-      };
+    // Definitions created by this library validate and brand in a single compiled pass
+    const parse = getCompiledParser(definition);
+    if (parse) {
+      const result = parse(value, options);
+      return result.success
+        ? { success: true, value: result.value as BrandedInstance<T, Id> }
+        : toFieldValidationFailure(result.error, value, definition);
     }
 
     // Try to validate and brand the plain object
     if (definition.validate(value)) {
-      const branded = definition.create(value as T);
+      const branded = definition.create(value as T, options) as BrandedInstance<T, Id>;
       return {
         success: true,
         value: branded,
@@ -121,51 +144,98 @@ export function safeParseInterface<T extends Record<string, unknown>>(
     }
 
     // Validation failed — try to extract field-level errors
-    return buildFieldValidationFailure(value, definition);
+    return buildFieldValidationFailure(value, definition, options);
   } catch (err: unknown) {
-    // Catch errors from create() or validate() and extract field info
-    const message = err instanceof Error ? err.message : String(err);
-    const fieldErrors = extractFieldErrors(message);
+    // Catch errors from create() or validate() and convert them to a failure result
+    return toFieldValidationFailure(err, value, definition);
+  }
+}
 
+/**
+ * Performs the checks shared by the sync and async safe parsers. Returns the
+ * result when they decide it (invalid definition, non-object value, or an
+ * instance already branded with the definition), undefined otherwise.
+ */
+function checkParseInput<T extends Record<string, unknown>, Id extends string>(
+  value: unknown,
+  definition: BrandedInterfaceDefinition<T, Id> | BrandedInterfaceUnionDefinition<T>
+): InterfaceSafeParseResult<BrandedInstance<T, Id>> | undefined {
+  // Check that definition is a valid BrandedInterfaceDefinition (or union)
+  if (
+    !definition ||
+    typeof definition !== 'object' ||
+    ((definition as unknown as Record<symbol, unknown>)[INTERFACE_ID] === undefined &&
+      !isInterfaceUnion(definition))
+  ) {
     return {
       success: false,
       error: {
-        message,
-        code: 'FIELD_VALIDATION_FAILED',
+        message: 'Invalid definition: not a BrandedInterfaceDefinition',
+        code: 'INVALID_DEFINITION',
+        input: value,
+      },
+    };
+  }
+
+  // Check that value is an object
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    return {
+      success: false,
+      error: {
+        message: `Expected an object but got "${actual}"`,
+        code: 'INVALID_VALUE_TYPE',
         input: value,
         interfaceId: definition.id,
-        ...(fieldErrors.length > 0 ? { fieldErrors } : {}),
       },
     };
   }
+
+  // If already a branded instance of this definition, return success
+  if (hasDefinitionBrand(value, definition)) {
+    return {
+      success: true,
+      value: value as BrandedInstance<T, Id>,
+    };
+  }
+
+  return undefined;
 }
 
 /**
  * Builds a FIELD_VALIDATION_FAILED failure result by attempting create()
- * to extract the specific field error message.
+ * to obtain the structured validation error.
  */
-function buildFieldValidationFailure<T extends Record<string, unknown>>(
+function buildFieldValidationFailure<T extends Record<string, unknown>, Id extends string>(
   value: unknown,
-  definition: BrandedInterfaceDefinition<T>
-): InterfaceSafeParseResult<BrandedInstance<T>> {
+  definition: BrandedInterfaceDefinition<T, Id> | BrandedInterfaceUnionDefinition<T>,
+  options?: InterfaceCreateOptions
+): InterfaceSafeParseResult<BrandedInstance<T, Id>> {
   try {
-    // Attempt create() to get a descriptive error
-    definition.create(value as T);
-    // If create succeeds unexpectedly, return success
-    // (shouldn't happen since validate() returned false)
+    // Attempt create() to get a descriptive error. With coercion enabled the
+    // raw input can fail validate() yet be accepted by create().
+    const branded = definition.create(value as T, options) as BrandedInstance<T, Id>;
     return {
-      success: false,
-      error: {
-        message: `Value does not match interface "${definition.id}" schema`,
-        code: 'FIELD_VALIDATION_FAILED',
-        input: value,
-        interfaceId: definition.id,
-      },
+      success: true,
+      value: branded,
     };
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : String(err);
-    const fieldErrors = extractFieldErrors(message);
+    return toFieldValidationFailure(err, value, definition);
+  }
+}
 
+/**
+ * Converts an error thrown during create() into a FIELD_VALIDATION_FAILED result.
+ * Issues from a BrandedValidationError are surfaced both as-is and as field errors.
+ */
+function toFieldValidationFailure<T extends Record<string, unknown>, Id extends string>(
+  err: unknown,
+  value: unknown,
+  definition: BrandedInterfaceDefinition<T, Id> | BrandedInterfaceUnionDefinition<T>
+): InterfaceSafeParseResult<BrandedInstance<T, Id>> {
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (!isBrandedValidationError(err)) {
     return {
       success: false,
       error: {
@@ -173,26 +243,59 @@ function buildFieldValidationFailure<T extends Record<string, unknown>>(
         code: 'FIELD_VALIDATION_FAILED',
         input: value,
         interfaceId: definition.id,
-        ...(fieldErrors.length > 0 ? { fieldErrors } : {}),
       },
     };
   }
+
+  const fieldErrors = err.issues
+    .filter((issue) => issue.path.length > 0)
+    .map((issue) => ({ field: formatIssuePath(issue.path), message: issue.message }));
+
+  return {
+    success: false,
+    error: {
+      message,
+      code: 'FIELD_VALIDATION_FAILED',
+      input: value,
+      interfaceId: definition.id,
+      ...(fieldErrors.length > 0 ? { fieldErrors } : {}),
+      issues: err.issues,
+    },
+  };
 }
 
+// =============================================================================
+// safeParseInterfaceAsync
+// =============================================================================
+
 /**
- * Extracts field-level errors from an error message.
- * Looks for patterns like: Field "fieldName" ...
+ * Async counterpart of safeParseInterface() for definitions with async field
+ * validators or refinements. Produces the same result structure, running the
+ * value through definition.createAsync(); errors thrown by async validators
+ * themselves (e.g. a failed lookup) become failure results as well.
  */
-function extractFieldErrors(message: string): Array<{ field: string; message: string }> {
-  const fieldErrors: Array<{ field: string; message: string }> = [];
-  const fieldMatch = message.match(/Field "([^"]+)"/);
-  if (fieldMatch) {
-    fieldErrors.push({
-      field: fieldMatch[1],
-      message,
-    });
+export async function safeParseInterfaceAsync<
+  T extends Record<string, unknown>,
+  Id extends string = string,
+>(
+  value: unknown,
+  definition: BrandedInterfaceDefinition<T, Id> | BrandedInterfaceUnionDefinition<T>,
+  options?: InterfaceCreateOptions
+): Promise<InterfaceSafeParseResult<BrandedInstance<T, Id>>> {
+  try {
+    const early = checkParseInput(value, definition);
+    if (early) {
+      return early;
+    }
+
+    const branded = (await definition.createAsync(value as T, options)) as BrandedInstance<T, Id>;
+    return {
+      success: true,
+      value: branded,
+    };
+  } catch (err: unknown) {
+    return toFieldValidationFailure(err, value, definition);
   }
-  return fieldErrors;
 }
 
 // =============================================================================
@@ -205,10 +308,10 @@ function extractFieldErrors(message: string): Array<{ field: string; message: st
  * Checks that the value has the correct base type and passes the definition's
  * validation predicate.
  */
-export function isOfPrimitive<T extends string | number | boolean>(
+export function isOfPrimitive<T extends string | number | boolean, Id extends string = string>(
   value: unknown,
-  definition: BrandedPrimitiveDefinition<T>
-): value is T {
+  definition: BrandedPrimitiveDefinition<T, Id>
+): value is BrandedPrimitiveValue<T, Id> {
   if (typeof value !== definition.baseType) {
     return false;
   }
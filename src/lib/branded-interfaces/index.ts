@@ -7,6 +7,9 @@
 // Core types and symbols
 export * from './types.js';
 
+// Validation errors
+export * from './errors.js';
+
 // Factory functions
 export * from './factory.js';
 
@@ -28,6 +31,9 @@ export * from './diff.js';
 // Structural subtyping
 export * from './subtype.js';
 
+// Structural equality and hashing
+export * from './equality.js';
+
 // Serialization
 export * from './serializer.js';
 
@@ -49,6 +55,12 @@ export * from './versioning.js';
 // Builder pattern
 export * from './builder.js';
 
+// Typed schema DSL
+export * from './schema-dsl.js';
+
+// Draft-based editing
+export * from './produce.js';
+
 // Codec pipelines
 export * from './codec.js';
 
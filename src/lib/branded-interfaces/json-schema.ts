@@ -2,18 +2,44 @@
  * JSON Schema generation for branded interface definitions.
  *
  * Maps FieldDescriptor types to JSON Schema types, handles optional/nullable,
- * resolves branded-interface refs to enum constraints, and emits format annotations
- * for known branded-primitive refinements.
+ * resolves branded-enum refs to enum constraints and branded-interface refs to
+ * `$defs` subschemas (recursively for self refs), emits declarative
+ * constraints (minLength, pattern, minimum, ...), emits format annotations
+ * for known branded-primitive refinements, expands nested object schemas,
+ * tuples and records, describes date, bigint and bytes fields by their
+ * serializer wire encodings, and renders interface unions as `oneOf` with a
+ * discriminator.
  */
 
 import type {
   BrandedInterfaceDefinition,
+  BrandedInterfaceUnionDefinition,
   FieldDescriptor,
   InterfaceJsonSchema,
+  InterfaceSchema,
+  InterfaceUnionJsonSchema,
 } from './types.js';
+import { getInterfaceById } from './registry.js';
+import { resolveSelfRef, resolveUnknownKeys } from './validation.js';
 import { getEnumById } from '../registry.js';
 import { ENUM_VALUES } from '../types.js';
 
+/** Supported JSON Schema drafts */
+type JsonSchemaDraft = '2020-12' | '07';
+
+/**
+ * State shared while converting one JSON Schema document.
+ */
+interface JsonSchemaContext {
+  readonly draft: JsonSchemaDraft;
+  /** ID of the interface at the document root, referenced as `#` */
+  readonly rootId: string;
+  /** ID of the interface whose schema is being converted (named by `'self'` refs) */
+  readonly selfId: string;
+  /** Subschemas of referenced interfaces, keyed by interface ID */
+  readonly defs: Record<string, unknown>;
+}
+
 /** JSON Schema draft URLs */
 const SCHEMA_DRAFTS: Record<string, string> = {
   '2020-12': 'https://json-schema.org/draft/2020-12/schema',
@@ -27,6 +53,16 @@ const REFINEMENT_FORMATS: Record<string, string> = {
   Url: 'uri',
 };
 
+/**
+ * JSON Schema keywords describing the wire encodings of date, bigint and bytes
+ * fields (see interfaceSerializer), all of which are strings.
+ */
+const WIRE_FORMATS: Record<string, Record<string, string>> = {
+  date: { format: 'date-time' },
+  bigint: { pattern: '^[-+]?\\d+$' },
+  bytes: { contentEncoding: 'base64' },
+};
+
 /**
  * Maps a FieldBaseType to its JSON Schema type string.
  */
@@ -47,10 +83,49 @@ function baseTypeToJsonSchemaType(type: string): string {
   }
 }
 
+/** Declarative descriptor constraints and the JSON Schema keywords they map to */
+const CONSTRAINT_KEYWORDS: ReadonlyArray<[keyof FieldDescriptor, string]> = [
+  ['minLength', 'minLength'],
+  ['maxLength', 'maxLength'],
+  ['pattern', 'pattern'],
+  ['min', 'minimum'],
+  ['max', 'maximum'],
+  ['minItems', 'minItems'],
+  ['maxItems', 'maxItems'],
+  ['uniqueItems', 'uniqueItems'],
+];
+
 /**
- * Converts a single FieldDescriptor to a JSON Schema property definition.
+ * Converts a single FieldDescriptor to a JSON Schema property definition,
+ * including its declarative constraints. An `integer` number field is
+ * emitted with type `integer`.
  */
-function fieldToJsonSchemaProperty(descriptor: FieldDescriptor): unknown {
+function fieldToJsonSchemaProperty(descriptor: FieldDescriptor, ctx: JsonSchemaContext): unknown {
+  const prop = { ...(fieldTypeToJsonSchema(descriptor, ctx) as Record<string, unknown>) };
+
+  if (descriptor.integer) {
+    const { type } = prop;
+    if (type === 'number') {
+      prop['type'] = 'integer';
+    } else if (Array.isArray(type)) {
+      prop['type'] = type.map((t) => (t === 'number' ? 'integer' : t));
+    }
+  }
+
+  for (const [descriptorKey, keyword] of CONSTRAINT_KEYWORDS) {
+    const value = descriptor[descriptorKey];
+    if (value !== undefined) {
+      prop[keyword] = value;
+    }
+  }
+  return prop;
+}
+
+/**
+ * Converts the type of a FieldDescriptor to a JSON Schema definition.
+ * The draft selects the tuple keywords (`prefixItems` vs. array-form `items`).
+ */
+function fieldTypeToJsonSchema(descriptor: FieldDescriptor, ctx: JsonSchemaContext): unknown {
   const { type, nullable, ref } = descriptor;
 
   // Handle branded-enum refs: look up enum and emit { enum: [...values] }
@@ -84,8 +159,17 @@ function fieldToJsonSchemaProperty(descriptor: FieldDescriptor): unknown {
     return prop;
   }
 
-  // Handle branded-interface refs: emit { type: 'object' }
+  // Handle branded-interface refs: emit a $ref to the referenced interface's subschema
   if (type === 'branded-interface') {
+    const refId = resolveSelfRef(ref, ctx.selfId);
+    const entry = refId ? getInterfaceById(refId) : undefined;
+    if (refId && entry?.kind === 'interface') {
+      const refSchema = {
+        $ref: interfaceRef(entry.definition as BrandedInterfaceDefinition, ctx),
+      };
+      return nullable ? { anyOf: [refSchema, { type: 'null' }] } : refSchema;
+    }
+    // Interface not found in registry — fall back to a plain object
     const prop: Record<string, unknown> = { type: 'object' };
     if (nullable) {
       prop['type'] = ['object', 'null'];
@@ -93,9 +177,86 @@ function fieldToJsonSchemaProperty(descriptor: FieldDescriptor): unknown {
     return prop;
   }
 
+  // Handle branded-opaque refs: the wire form depends on the serializer's policy
+  if (type === 'branded-opaque') {
+    return {};
+  }
+
+  // Handle literal fields: emit { const: value }
+  if (type === 'literal') {
+    return nullable ? { enum: [descriptor.value, null] } : { const: descriptor.value };
+  }
+
+  // Handle union fields: emit { anyOf: [...members] }
+  if (type === 'union') {
+    const anyOf = (descriptor.members ?? []).map((member) =>
+      fieldToJsonSchemaProperty(member, ctx)
+    );
+    return { anyOf: nullable ? [...anyOf, { type: 'null' }] : anyOf };
+  }
+
+  // Handle object fields with an inline schema: emit the nested structure
+  if (type === 'object' && descriptor.properties) {
+    const prop: Record<string, unknown> = {
+      type: nullable ? ['object', 'null'] : 'object',
+      ...schemaToJsonSchemaProperties(descriptor.properties, ctx),
+    };
+    if (descriptor.strict) {
+      prop['additionalProperties'] = false;
+    }
+    return prop;
+  }
+
+  // Handle tuple fields: positional element schemas, closed unless a rest schema is given
+  if (type === 'tuple') {
+    const elements = (descriptor.elements ?? []).map((element) =>
+      fieldToJsonSchemaProperty(element, ctx)
+    );
+    const rest = descriptor.rest ? fieldToJsonSchemaProperty(descriptor.rest, ctx) : false;
+    const prop: Record<string, unknown> = { type: nullable ? ['array', 'null'] : 'array' };
+    if (ctx.draft === '07') {
+      prop['items'] = elements;
+      prop['additionalItems'] = rest;
+    } else {
+      prop['prefixItems'] = elements;
+      prop['items'] = rest;
+    }
+    // Trailing optional or defaulted elements may be omitted
+    let minItems = elements.length;
+    while (minItems > 0) {
+      const element = (descriptor.elements ?? [])[minItems - 1];
+      if (!element.optional && element.default === undefined) {
+        break;
+      }
+      minItems--;
+    }
+    if (minItems > 0) {
+      prop['minItems'] = minItems;
+    }
+    return prop;
+  }
+
+  // Handle record fields: constrain keys with propertyNames and values with additionalProperties
+  if (type === 'record') {
+    const prop: Record<string, unknown> = { type: nullable ? ['object', 'null'] : 'object' };
+    const { keys, values } = descriptor;
+    if (keys?.ref !== undefined) {
+      const enumDef = getEnumById(keys.ref);
+      if (enumDef) {
+        prop['propertyNames'] = { enum: Array.from(enumDef[ENUM_VALUES]) };
+      }
+    } else if (keys?.pattern !== undefined) {
+      prop['propertyNames'] = { pattern: keys.pattern };
+    }
+    if (values) {
+      prop['additionalProperties'] = fieldToJsonSchemaProperty(values, ctx);
+    }
+    return prop;
+  }
+
   // Standard field types
   const jsonType = baseTypeToJsonSchemaType(type);
-  const prop: Record<string, unknown> = { type: jsonType };
+  const prop: Record<string, unknown> = { type: jsonType, ...WIRE_FORMATS[type] };
 
   if (nullable) {
     prop['type'] = [jsonType, 'null'];
@@ -104,37 +265,158 @@ function fieldToJsonSchemaProperty(descriptor: FieldDescriptor): unknown {
   return prop;
 }
 
+/**
+ * Converts an interface schema to JSON Schema `properties` and `required` keywords.
+ */
+function schemaToJsonSchemaProperties(
+  schema: InterfaceSchema,
+  ctx: JsonSchemaContext
+): { properties: Record<string, unknown>; required: string[] } {
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+
+  for (const [fieldName, descriptor] of Object.entries(schema)) {
+    const property = fieldToJsonSchemaProperty(descriptor, ctx);
+
+    // Static defaults are advertised; factory defaults cannot be represented
+    const hasDefault = descriptor.default !== undefined;
+    if (hasDefault && typeof descriptor.default !== 'function') {
+      (property as Record<string, unknown>)['default'] = descriptor.default;
+    }
+    properties[fieldName] = property;
+
+    // Fields with a default may be omitted from input
+    if (!descriptor.optional && !hasDefault) {
+      required.push(fieldName);
+    }
+  }
+
+  return { properties, required };
+}
+
+/**
+ * Returns the `$ref` pointing at an interface's subschema: `#` for the root
+ * interface, `#/$defs/<id>` (`#/definitions/<id>` in draft 07) otherwise.
+ * The subschema is added to the shared defs the first time it is referenced,
+ * so recursive and mutually recursive interfaces terminate.
+ */
+function interfaceRef(definition: BrandedInterfaceDefinition, ctx: JsonSchemaContext): string {
+  if (definition.id === ctx.rootId) {
+    return '#';
+  }
+  if (!(definition.id in ctx.defs)) {
+    // Reserve the slot before converting, so self-references resolve to it
+    ctx.defs[definition.id] = {};
+    ctx.defs[definition.id] = interfaceToJsonSchemaBody(definition, {
+      ...ctx,
+      selfId: definition.id,
+    });
+  }
+  return `#/${defsKeyword(ctx.draft)}/${definition.id}`;
+}
+
+/**
+ * The keyword holding reusable subschemas in a draft.
+ */
+function defsKeyword(draft: JsonSchemaDraft): '$defs' | 'definitions' {
+  return draft === '07' ? 'definitions' : '$defs';
+}
+
+/**
+ * Converts an interface definition to an object subschema (without `$schema`).
+ */
+function interfaceToJsonSchemaBody(
+  definition: BrandedInterfaceDefinition,
+  ctx: JsonSchemaContext
+): Omit<InterfaceJsonSchema, '$schema'> {
+  const { properties, required } = schemaToJsonSchemaProperties(definition.schema, ctx);
+
+  return {
+    type: 'object',
+    title: definition.id,
+    properties,
+    required,
+    // 'passthrough' and 'strip' both accept extra properties; only 'strict' rejects them
+    additionalProperties: resolveUnknownKeys(definition.unknownKeys) !== 'strict',
+  };
+}
+
 /**
  * Generates a JSON Schema from a branded interface definition.
  *
+ * Referenced interfaces are emitted once under `$defs` (`definitions` in
+ * draft 07) and pointed at with `$ref`; a reference back to the interface
+ * itself uses `#`, so recursive interfaces produce recursive schemas.
+ *
  * @param definition - The branded interface definition to convert
  * @param options - Optional settings (draft version)
  * @returns A valid JSON Schema object describing the interface structure
  */
 export function interfaceToJsonSchema(
   definition: BrandedInterfaceDefinition,
-  options?: { draft?: '2020-12' | '07' }
+  options?: { draft?: JsonSchemaDraft }
 ): InterfaceJsonSchema {
   const draft = options?.draft ?? '2020-12';
   const schemaUrl = SCHEMA_DRAFTS[draft] ?? SCHEMA_DRAFTS['2020-12'];
+  const ctx: JsonSchemaContext = { draft, rootId: definition.id, selfId: definition.id, defs: {} };
 
-  const properties: Record<string, unknown> = {};
-  const required: string[] = [];
+  return {
+    $schema: schemaUrl,
+    ...interfaceToJsonSchemaBody(definition, ctx),
+    ...withDefs(ctx),
+  };
+}
 
-  for (const [fieldName, descriptor] of Object.entries(definition.schema)) {
-    properties[fieldName] = fieldToJsonSchemaProperty(descriptor);
+/**
+ * The `$defs` (or `definitions`) entry of a document, if any subschemas were collected.
+ */
+function withDefs(
+  ctx: JsonSchemaContext
+): Partial<Record<'$defs' | 'definitions', Record<string, unknown>>> {
+  return Object.keys(ctx.defs).length > 0 ? { [defsKeyword(ctx.draft)]: ctx.defs } : {};
+}
 
-    if (!descriptor.optional) {
-      required.push(fieldName);
-    }
-  }
+/**
+ * Generates a JSON Schema from an interface union definition.
+ *
+ * Each member becomes a `oneOf` subschema whose discriminator property is
+ * pinned to the member's value with `const` (and required). The OpenAPI
+ * `discriminator` keyword names the discriminator property.
+ *
+ * @param union - The union definition to convert
+ * @param options - Optional settings (draft version)
+ * @returns A JSON Schema object describing the union
+ */
+export function interfaceUnionToJsonSchema(
+  union: BrandedInterfaceUnionDefinition,
+  options?: { draft?: JsonSchemaDraft }
+): InterfaceUnionJsonSchema {
+  const draft = options?.draft ?? '2020-12';
+  const ctx: JsonSchemaContext = { draft, rootId: union.id, selfId: union.id, defs: {} };
+
+  const oneOf = Object.entries(union.members).map(([value, member]) => {
+    const memberSchema = interfaceToJsonSchemaBody(member, { ...ctx, selfId: member.id });
+    const discriminatorProperty = memberSchema.properties[union.discriminator] as Record<
+      string,
+      unknown
+    >;
+    return {
+      ...memberSchema,
+      properties: {
+        ...memberSchema.properties,
+        [union.discriminator]: { ...discriminatorProperty, const: value },
+      },
+      required: memberSchema.required.includes(union.discriminator)
+        ? memberSchema.required
+        : [...memberSchema.required, union.discriminator],
+    };
+  });
 
   return {
-    $schema: schemaUrl,
-    type: 'object',
-    title: definition.id,
-    properties,
-    required,
-    additionalProperties: false,
+    $schema: SCHEMA_DRAFTS[draft] ?? SCHEMA_DRAFTS['2020-12'],
+    title: union.id,
+    oneOf,
+    discriminator: { propertyName: union.discriminator },
+    ...withDefs(ctx),
   };
 }
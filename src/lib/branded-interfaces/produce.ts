@@ -0,0 +1,302 @@
+/**
+ * Draft-based editing of branded instances.
+ *
+ * produce() hands a recipe a mutable proxy of an instance. Edits are recorded
+ * copy-on-write, so untouched subtrees stay shared with the original; when the
+ * recipe returns, the changed fields are validated through the definition's
+ * update() and the result is reported as a safe-parse style result.
+ */
+
+import {
+  INTERFACE_ID,
+  OPAQUE_ID,
+  BrandedInstance,
+  BrandedInterfaceDefinition,
+  InterfaceCreateOptions,
+  InterfaceDraft,
+  InterfaceDraftRecipe,
+  InterfaceSafeParseResult,
+} from './types.js';
+
+import { formatIssuePath, isBrandedValidationError } from './errors.js';
+import { getInterfaceById } from './registry.js';
+
+// =============================================================================
+// Draft State
+// =============================================================================
+
+/** Arrays and plain objects, indexed uniformly */
+type DraftTarget = Record<PropertyKey, unknown>;
+
+/**
+ * Bookkeeping behind one draft proxy. `copy` is created on the first write;
+ * a child's first write also copies its parents and links the child in.
+ */
+interface DraftState {
+  readonly base: DraftTarget;
+  copy: DraftTarget | undefined;
+  readonly parent: DraftState | undefined;
+  readonly key: PropertyKey;
+  readonly children: Map<PropertyKey, object>;
+  proxy: object;
+}
+
+/** Drafts created by one produce() call, revoked when it finishes */
+interface DraftScope {
+  readonly states: WeakMap<object, DraftState>;
+  readonly revokers: Array<() => void>;
+}
+
+function isDraftable(value: unknown): value is DraftTarget {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return (
+    (proto === Object.prototype || proto === null) &&
+    (value as Record<symbol, unknown>)[OPAQUE_ID] === undefined
+  );
+}
+
+function latest(state: DraftState): DraftTarget {
+  return state.copy ?? state.base;
+}
+
+function ensureCopy(state: DraftState): DraftTarget {
+  if (state.copy) {
+    return state.copy;
+  }
+  // Spreading drops the non-enumerable brand symbols of branded instances
+  state.copy = (Array.isArray(state.base) ? [...state.base] : { ...state.base }) as DraftTarget;
+  const parent = state.parent;
+  // A draft detached by reassigning its parent key no longer feeds the result
+  if (parent && parent.children.get(state.key) === state.proxy) {
+    ensureCopy(parent)[state.key] = state.proxy;
+  }
+  return state.copy;
+}
+
+function createDraft(
+  scope: DraftScope,
+  base: DraftTarget,
+  parent: DraftState | undefined,
+  key: PropertyKey
+): DraftState {
+  const state: DraftState = {
+    base,
+    copy: undefined,
+    parent,
+    key,
+    children: new Map(),
+    proxy: {},
+  };
+  const { proxy, revoke } = Proxy.revocable<DraftTarget>(
+    (Array.isArray(base) ? [] : {}) as DraftTarget,
+    {
+      get: (_target, prop) => {
+        const current = latest(state);
+        const child = state.children.get(prop);
+        if (child) {
+          return child;
+        }
+        const value = Reflect.get(current, prop);
+        if (
+          typeof prop === 'symbol' ||
+          !Object.prototype.hasOwnProperty.call(current, prop) ||
+          (typeof value === 'object' && value !== null && scope.states.has(value)) ||
+          !isDraftable(value)
+        ) {
+          return value;
+        }
+        const draft = createDraft(scope, value, state, prop).proxy;
+        state.children.set(prop, draft);
+        return draft;
+      },
+      set: (_target, prop, value) => {
+        ensureCopy(state)[prop] = value;
+        state.children.delete(prop);
+        return true;
+      },
+      deleteProperty: (_target, prop) => {
+        delete ensureCopy(state)[prop];
+        state.children.delete(prop);
+        return true;
+      },
+      has: (_target, prop) => prop in latest(state),
+      ownKeys: () => Reflect.ownKeys(latest(state)),
+      getOwnPropertyDescriptor: (_target, prop) => {
+        const descriptor = Reflect.getOwnPropertyDescriptor(latest(state), prop);
+        if (!descriptor) {
+          return undefined;
+        }
+        // Report drafts as writable; an array's length must stay non-configurable
+        const isLength = Array.isArray(base) && prop === 'length';
+        return { ...descriptor, writable: true, configurable: !isLength };
+      },
+      defineProperty: () => {
+        throw new TypeError('Cannot define properties on a draft; assign them instead');
+      },
+    }
+  );
+  state.proxy = proxy;
+  scope.states.set(proxy, state);
+  scope.revokers.push(revoke);
+  return state;
+}
+
+// =============================================================================
+// Finalization
+// =============================================================================
+
+/**
+ * Returns the draft's edited copy with nested drafts replaced by their
+ * results, or its base when it was never written to.
+ */
+function finalizeDraft(scope: DraftScope, state: DraftState): unknown {
+  const copy = state.copy;
+  if (!copy) {
+    return state.base;
+  }
+  for (const key of Object.keys(copy)) {
+    const value = copy[key];
+    if (value !== state.base[key]) {
+      copy[key] = finalizeValue(scope, value, new Set());
+    }
+  }
+  return copy;
+}
+
+/**
+ * Finalizes a value assigned during the recipe. Values built from drafts
+ * (e.g. `draft.items.filter(...)`) can contain draft proxies at any depth.
+ */
+function finalizeValue(scope: DraftScope, value: unknown, seen: Set<object>): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const state = scope.states.get(value);
+  if (state) {
+    return finalizeDraft(scope, state);
+  }
+  if (
+    !isDraftable(value) ||
+    (value as Record<symbol, unknown>)[INTERFACE_ID] !== undefined ||
+    seen.has(value)
+  ) {
+    return value;
+  }
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map((item) => finalizeValue(scope, item, seen));
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = finalizeValue(scope, item, seen);
+  }
+  return result;
+}
+
+/**
+ * Collects the top-level fields the recipe changed. Deleted fields are
+ * patched to undefined, so removing a required field fails validation.
+ */
+function rootPatch(scope: DraftScope, root: DraftState): Record<string, unknown> {
+  const result = finalizeDraft(scope, root) as Record<string, unknown>;
+  const patch: Record<string, unknown> = {};
+  for (const key of Object.keys(result)) {
+    if (result[key] !== root.base[key]) {
+      patch[key] = result[key];
+    }
+  }
+  for (const key of Object.keys(root.base)) {
+    if (!(key in result)) {
+      patch[key] = undefined;
+    }
+  }
+  return patch;
+}
+
+// =============================================================================
+// produce
+// =============================================================================
+
+/**
+ * Applies a recipe of in-place edits to a branded instance without mutating it.
+ *
+ * The recipe receives a mutable draft; nested objects and arrays (including
+ * nested branded instances) are drafted on access. When the recipe returns,
+ * the changed top-level fields are validated through the definition's
+ * update() — refinements run against the whole result and plain objects in
+ * interface ref fields are auto-branded — and a new branded instance is
+ * returned. Without changes the original instance is returned.
+ *
+ * Validation failures are returned as FIELD_VALIDATION_FAILED results, like
+ * safeParseInterface(); a value that is not a branded interface instance
+ * yields NOT_BRANDED_INSTANCE. Errors thrown by the recipe propagate. Drafts
+ * are revoked afterwards, so keeping a reference to one is an error.
+ */
+export function produce<T extends Record<string, unknown>>(
+  instance: BrandedInstance<T>,
+  recipe: InterfaceDraftRecipe<T>,
+  options?: InterfaceCreateOptions
+): InterfaceSafeParseResult<BrandedInstance<T>> {
+  const id =
+    typeof instance === 'object' && instance !== null
+      ? (instance as unknown as Record<symbol, unknown>)[INTERFACE_ID]
+      : undefined;
+  const entry = typeof id === 'string' ? getInterfaceById(id) : undefined;
+  if (entry?.kind !== 'interface') {
+    return {
+      success: false,
+      error: {
+        message: 'produce() expects a branded interface instance',
+        code: 'NOT_BRANDED_INSTANCE',
+        input: instance,
+      },
+    };
+  }
+  const definition = entry.definition as unknown as BrandedInterfaceDefinition<T>;
+
+  const scope: DraftScope = { states: new WeakMap(), revokers: [] };
+  let patch: Record<string, unknown>;
+  try {
+    const root = createDraft(scope, instance as unknown as DraftTarget, undefined, '');
+    recipe(root.proxy as InterfaceDraft<T>);
+    patch = rootPatch(scope, root);
+  } finally {
+    scope.revokers.forEach((revoke) => revoke());
+  }
+
+  if (Object.keys(patch).length === 0) {
+    return { success: true, value: instance };
+  }
+
+  try {
+    const value = definition.update(instance, patch as Partial<T>, {
+      ...options,
+      autoBrand: true,
+    });
+    return { success: true, value };
+  } catch (err: unknown) {
+    if (!isBrandedValidationError(err)) {
+      throw err;
+    }
+    const fieldErrors = err.issues
+      .filter((issue) => issue.path.length > 0)
+      .map((issue) => ({ field: formatIssuePath(issue.path), message: issue.message }));
+    return {
+      success: false,
+      error: {
+        message: err.message,
+        code: 'FIELD_VALIDATION_FAILED',
+        input: { ...instance, ...patch },
+        interfaceId: definition.id,
+        ...(fieldErrors.length > 0 ? { fieldErrors } : {}),
+        issues: err.issues,
+      },
+    };
+  }
+}
@@ -28,6 +28,7 @@ export function getInterfaceRegistry(): InterfaceRegistry {
   if (!(INTERFACE_REGISTRY_KEY in global) || !global[INTERFACE_REGISTRY_KEY]) {
     global[INTERFACE_REGISTRY_KEY] = {
       entries: new Map<string, InterfaceRegistryEntry>(),
+      revision: 0,
     };
   }
 
@@ -60,6 +61,7 @@ export function registerInterfaceEntry(entry: InterfaceRegistryEntry): void {
   }
 
   registry.entries.set(entry.id, entry);
+  bumpRevision(registry);
 }
 
 /**
@@ -91,4 +93,17 @@ export function getInterfaceById(id: string): InterfaceRegistryEntry | undefined
 export function resetInterfaceRegistry(): void {
   const registry = getInterfaceRegistry();
   registry.entries.clear();
+  bumpRevision(registry);
+}
+
+/**
+ * Records a change to the registry for compiled validators. A registry created
+ * by an older copy of the library has no revision and is left without one, as
+ * that copy changes it without counting; validators then re-resolve refs on
+ * every run instead of trusting a stale count.
+ */
+function bumpRevision(registry: InterfaceRegistry): void {
+  if (registry.revision !== undefined) {
+    registry.revision++;
+  }
 }
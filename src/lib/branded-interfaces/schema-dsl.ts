@@ -0,0 +1,210 @@
+/**
+ * Typed schema DSL.
+ *
+ * The `t` builders produce ordinary FieldDescriptors while carrying the static
+ * type of the values each field accepts. Refs are built from definition objects
+ * rather than string IDs, so a misspelled ref is a compile error instead of a
+ * "not registered" failure at validation time:
+ *
+ * ```ts
+ * const Patient = createBrandedInterface('Patient', t.schema({
+ *   name: t.string().min(1),
+ *   age: t.number().int().nullable(),
+ *   status: t.enum(Status),
+ *   address: t.ref(Address),
+ *   tags: t.array(t.string()).optional(),
+ * }));
+ * ```
+ */
+
+import { ENUM_ID } from '../types.js';
+import type { BrandedEnumMetadata } from '../types.js';
+
+import {
+  ArraySchemaFieldType,
+  BrandedInstance,
+  BrandedInterfaceDefinition,
+  BrandedPrimitiveDefinition,
+  BrandedPrimitiveValue,
+  FieldDescriptor,
+  InferRefValue,
+  InferSchemaFields,
+  NumberSchemaFieldType,
+  OpaqueTypeDefinition,
+  OpaqueValue,
+  SchemaFieldType,
+  SchemaFieldTypes,
+  SchemaFieldValue,
+  StringSchemaFieldType,
+  TypedFieldDescriptor,
+  TypedInterfaceSchema,
+} from './types.js';
+
+// =============================================================================
+// Field Builders
+// =============================================================================
+
+/**
+ * Wraps a descriptor in the modifiers every DSL field supports.
+ */
+function modifiers<V, Optional extends boolean>(
+  descriptor: FieldDescriptor
+): SchemaFieldType<V, Optional> {
+  return {
+    descriptor: Object.freeze(descriptor) as TypedFieldDescriptor<V, Optional>,
+    optional: () => field<V, true>({ ...descriptor, optional: true }),
+    nullable: () => field<V | null, Optional>({ ...descriptor, nullable: true }),
+    default: (value) => field<V, true>({ ...descriptor, default: value }),
+  };
+}
+
+function field<V, Optional extends boolean = false>(
+  descriptor: FieldDescriptor
+): SchemaFieldType<V, Optional> {
+  return Object.freeze(modifiers<V, Optional>(descriptor));
+}
+
+function stringField(descriptor: FieldDescriptor = { type: 'string' }): StringSchemaFieldType {
+  return Object.freeze({
+    ...modifiers<string, false>(descriptor),
+    min: (length: number) => stringField({ ...descriptor, minLength: length }),
+    max: (length: number) => stringField({ ...descriptor, maxLength: length }),
+    pattern: (pattern: RegExp | string) =>
+      stringField({
+        ...descriptor,
+        pattern: pattern instanceof RegExp ? pattern.source : pattern,
+      }),
+  });
+}
+
+function numberField(descriptor: FieldDescriptor = { type: 'number' }): NumberSchemaFieldType {
+  return Object.freeze({
+    ...modifiers<number, false>(descriptor),
+    int: () => numberField({ ...descriptor, integer: true }),
+    min: (value: number) => numberField({ ...descriptor, min: value }),
+    max: (value: number) => numberField({ ...descriptor, max: value }),
+  });
+}
+
+function arrayField<V>(descriptor: FieldDescriptor): ArraySchemaFieldType<V> {
+  return Object.freeze({
+    ...modifiers<V[], false>(descriptor),
+    min: (count: number) => arrayField<V>({ ...descriptor, minItems: count }),
+    max: (count: number) => arrayField<V>({ ...descriptor, maxItems: count }),
+    unique: () => arrayField<V>({ ...descriptor, uniqueItems: true }),
+  });
+}
+
+// =============================================================================
+// Ref Builders
+// =============================================================================
+
+function enumField<E extends BrandedEnumMetadata>(
+  brandedEnum: E
+): SchemaFieldType<InferRefValue<E>> {
+  const enumId: unknown = brandedEnum?.[ENUM_ID];
+  if (typeof enumId !== 'string') {
+    throw new Error('t.enum() expects a branded enum');
+  }
+  return field({ type: 'branded-enum', ref: enumId });
+}
+
+function refField<T extends Record<string, unknown>, Id extends string>(
+  definition: BrandedInterfaceDefinition<T, Id>
+): SchemaFieldType<BrandedInstance<T, Id>> {
+  return field({ type: 'branded-interface', ref: definition.id });
+}
+
+function primitiveField<T extends string | number | boolean, Id extends string>(
+  definition: BrandedPrimitiveDefinition<T, Id>
+): SchemaFieldType<BrandedPrimitiveValue<T, Id>> {
+  return field({ type: 'branded-primitive', ref: definition.id });
+}
+
+function opaqueField<V>(definition: OpaqueTypeDefinition<V>): SchemaFieldType<OpaqueValue<V>> {
+  return field({ type: 'branded-opaque', ref: definition.id });
+}
+
+// =============================================================================
+// Composite Builders
+// =============================================================================
+
+function objectField(): SchemaFieldType<Record<string, unknown>>;
+function objectField<F extends SchemaFieldTypes>(
+  fields: F
+): SchemaFieldType<InferSchemaFields<F>>;
+function objectField(fields?: SchemaFieldTypes): SchemaFieldType<unknown> {
+  return field(
+    fields === undefined ? { type: 'object' } : { type: 'object', properties: schema(fields) }
+  );
+}
+
+function tupleField<const E extends ReadonlyArray<SchemaFieldType<unknown, boolean>>>(
+  elements: E
+): SchemaFieldType<{ -readonly [K in keyof E]: SchemaFieldValue<E[K]> }> {
+  return field({ type: 'tuple', elements: elements.map((element) => element.descriptor) });
+}
+
+function recordField<F extends SchemaFieldType<unknown, boolean>>(
+  values: F
+): SchemaFieldType<Record<string, SchemaFieldValue<F>>> {
+  return field({ type: 'record', values: values.descriptor });
+}
+
+function unionField<M extends ReadonlyArray<SchemaFieldType<unknown, boolean>>>(
+  ...members: M
+): SchemaFieldType<SchemaFieldValue<M[number]>> {
+  return field({ type: 'union', members: members.map((member) => member.descriptor) });
+}
+
+function schema<F extends SchemaFieldTypes>(fields: F): TypedInterfaceSchema<F> {
+  const result: Record<string, FieldDescriptor> = {};
+  for (const [name, fieldType] of Object.entries(fields)) {
+    result[name] = fieldType.descriptor;
+  }
+  return Object.freeze(result) as TypedInterfaceSchema<F>;
+}
+
+// =============================================================================
+// t
+// =============================================================================
+
+/**
+ * Builders for typed schema fields. Each builder returns an immutable field
+ * whose `descriptor` is an ordinary FieldDescriptor; `t.schema()` collects
+ * fields into an InterfaceSchema whose instance type createBrandedInterface()
+ * infers. Ref builders take definitions rather than IDs:
+ *
+ * - `t.string()`, `t.number()`, `t.boolean()`, `t.date()`, `t.bigint()`, `t.bytes()`
+ * - `t.literal(value)`, `t.enum(BrandedEnum)`
+ * - `t.ref(InterfaceDefinition)`, `t.primitive(PrimitiveDefinition)`, `t.opaque(OpaqueType)`
+ * - `t.array(item)`, `t.tuple([...elements])`, `t.record(values)`, `t.object(fields?)`,
+ *   `t.union(...members)`
+ *
+ * Every field supports `.optional()`, `.nullable()` and `.default(value)`;
+ * strings, numbers and arrays add constraint methods (`.min()`, `.max()`,
+ * `.pattern()`, `.int()`, `.unique()`), which must precede those modifiers.
+ */
+export const t = Object.freeze({
+  string: (): StringSchemaFieldType => stringField(),
+  number: (): NumberSchemaFieldType => numberField(),
+  boolean: (): SchemaFieldType<boolean> => field({ type: 'boolean' }),
+  date: (): SchemaFieldType<Date> => field({ type: 'date' }),
+  bigint: (): SchemaFieldType<bigint> => field({ type: 'bigint' }),
+  bytes: (): SchemaFieldType<Uint8Array> => field({ type: 'bytes' }),
+  literal: <const V extends string | number | boolean>(value: V): SchemaFieldType<V> =>
+    field({ type: 'literal', value }),
+  enum: enumField,
+  ref: refField,
+  primitive: primitiveField,
+  opaque: opaqueField,
+  array: <F extends SchemaFieldType<unknown, boolean>>(
+    item: F
+  ): ArraySchemaFieldType<SchemaFieldValue<F>> =>
+    arrayField({ type: 'array', items: item.descriptor }),
+  tuple: tupleField,
+  record: recordField,
+  object: objectField,
+  union: unionField,
+  schema,
+});
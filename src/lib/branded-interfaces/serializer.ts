@@ -2,15 +2,29 @@
  * Serialization and deserialization for branded interface instances.
  *
  * Provides JSON serialization that strips Symbol metadata and
- * deserialization that validates and re-brands the parsed data.
+ * deserialization that validates and re-brands the parsed data. Date, bigint
+ * and bytes fields are written in their wire encodings (ISO string, decimal
+ * string, base64) and decoded back according to the schema. Opaque values are
+ * written according to an explicit policy.
  */
 
 import {
   BrandedInterfaceDefinition,
   BrandedInstance,
+  FieldDescriptor,
+  InterfaceCreateOptions,
   InterfaceDeserializeResult,
+  InterfaceSchema,
+  OPAQUE_ID,
+  OpaqueTypeDefinition,
+  OpaqueValue,
 } from './types.js';
 
+import { BrandedValidationError, isBrandedValidationError } from './errors.js';
+import { getInterfaceById } from './registry.js';
+import { resolveSelfRef } from './validation.js';
+import { decodeWireValue, encodeWireValue, isWireFieldType } from './wire.js';
+
 // =============================================================================
 // InterfaceSerializer
 // =============================================================================
@@ -24,6 +38,159 @@ export interface InterfaceSerializer<T extends Record<string, unknown>> {
   deserializeOrThrow(input: unknown): BrandedInstance<T>;
 }
 
+/**
+ * How serialize() writes opaque values (e.g. `branded-opaque` fields):
+ * - `'omit'`: the property is left out (the default, so wrapped values never leak)
+ * - `'redact'`: the string `"[REDACTED]"` is written instead
+ * - `{ unwrap }`: the hook's return value is written; deserialize() wraps it again
+ *   with the field's opaque type
+ */
+export type OpaqueSerializationPolicy =
+  | 'omit'
+  | 'redact'
+  | { readonly unwrap: (value: OpaqueValue<unknown>, typeId: string) => unknown };
+
+/**
+ * Options for interfaceSerializer(): create() options used on deserialization,
+ * plus the opaque value policy.
+ */
+export interface InterfaceSerializerOptions extends InterfaceCreateOptions {
+  readonly opaque?: OpaqueSerializationPolicy;
+}
+
+/** Placeholder written for opaque values under the 'redact' policy */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Encodes a value for JSON.stringify(): opaque values per the policy, other
+ * values in their wire encoding.
+ */
+function encodeValue(value: unknown, policy: OpaqueSerializationPolicy): unknown {
+  const typeId =
+    typeof value === 'object' && value !== null
+      ? (value as Record<symbol, unknown>)[OPAQUE_ID]
+      : undefined;
+  if (typeof typeId !== 'string') {
+    return encodeWireValue(value);
+  }
+  if (policy === 'omit') {
+    return undefined;
+  }
+  if (policy === 'redact') {
+    return REDACTED;
+  }
+  return encodeWireValue(policy.unwrap(value as OpaqueValue<unknown>, typeId));
+}
+
+// =============================================================================
+// Wire Decoding
+// =============================================================================
+
+/**
+ * State for decoding one parsed document.
+ */
+interface DecodeContext {
+  /** ID of the interface a `'self'` ref names */
+  readonly selfId: string;
+  /** Whether opaque fields were written by an unwrap hook and must be wrapped again */
+  readonly rewrapOpaque: boolean;
+}
+
+/**
+ * Decodes the wire encodings of date, bigint and bytes fields in parsed JSON,
+ * and wraps unwrapped opaque fields again.
+ * Returns a shallow copy only when a property was decoded.
+ */
+function decodeWireFields(
+  value: Record<string, unknown>,
+  schema: InterfaceSchema,
+  ctx: DecodeContext
+): unknown {
+  let output: Record<string, unknown> | undefined;
+  for (const [key, descriptor] of Object.entries(schema)) {
+    const decoded = decodeWireField(value[key], descriptor, ctx);
+    if (decoded !== value[key]) {
+      output ??= { ...value };
+      output[key] = decoded;
+    }
+  }
+  return output ?? value;
+}
+
+/**
+ * Decodes a single field value, recursing into nested objects, arrays, tuples,
+ * records and branded-interface refs. Union members are not decoded, since the
+ * member a string belongs to cannot be told from the string.
+ */
+function decodeWireField(value: unknown, descriptor: FieldDescriptor, ctx: DecodeContext): unknown {
+  if (descriptor.type === 'branded-opaque') {
+    const entry = descriptor.ref ? getInterfaceById(descriptor.ref) : undefined;
+    return ctx.rewrapOpaque && entry?.kind === 'opaque' && value !== undefined && value !== null
+      ? (entry.definition as OpaqueTypeDefinition<unknown>).wrap(value)
+      : value;
+  }
+  if (typeof value === 'string') {
+    return isWireFieldType(descriptor.type) ? decodeWireValue(value, descriptor.type) : value;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    const elementDescriptor = (i: number): FieldDescriptor | undefined =>
+      descriptor.type === 'array'
+        ? descriptor.items
+        : descriptor.type === 'tuple'
+          ? (descriptor.elements?.[i] ?? descriptor.rest)
+          : undefined;
+    let output: unknown[] | undefined;
+    value.forEach((item, i) => {
+      const itemDescriptor = elementDescriptor(i);
+      const decoded = itemDescriptor ? decodeWireField(item, itemDescriptor, ctx) : item;
+      if (decoded !== item) {
+        output ??= [...value];
+        output[i] = decoded;
+      }
+    });
+    return output ?? value;
+  }
+
+  const record = value as Record<string, unknown>;
+  switch (descriptor.type) {
+    case 'object':
+      return descriptor.properties
+        ? decodeWireFields(record, descriptor.properties, ctx)
+        : value;
+    case 'branded-interface': {
+      const refId = resolveSelfRef(descriptor.ref, ctx.selfId);
+      const entry = refId ? getInterfaceById(refId) : undefined;
+      return refId && entry?.kind === 'interface'
+        ? decodeWireFields(record, (entry.definition as BrandedInterfaceDefinition).schema, {
+            ...ctx,
+            selfId: refId,
+          })
+        : value;
+    }
+    case 'record': {
+      const { values } = descriptor;
+      if (!values) {
+        return value;
+      }
+      let output: Record<string, unknown> | undefined;
+      for (const [key, entry] of Object.entries(record)) {
+        const decoded = decodeWireField(entry, values, ctx);
+        if (decoded !== entry) {
+          output ??= { ...record };
+          output[key] = decoded;
+        }
+      }
+      return output ?? value;
+    }
+    default:
+      return value;
+  }
+}
+
 // =============================================================================
 // interfaceSerializer
 // =============================================================================
@@ -31,16 +198,35 @@ export interface InterfaceSerializer<T extends Record<string, unknown>> {
 /**
  * Creates a serializer for a branded interface definition.
  *
- * - `serialize()` extracts enumerable properties (no Symbols) and calls JSON.stringify().
- * - `deserialize()` parses JSON strings, validates against the schema, and brands the result.
- * - `deserializeOrThrow()` calls deserialize() and throws on failure.
+ * - `serialize()` extracts enumerable properties (no Symbols) and calls JSON.stringify(),
+ *   writing dates as ISO strings, bigints as decimal strings and bytes as base64.
+ * - `deserialize()` parses JSON strings, decodes date, bigint and bytes fields, validates
+ *   against the schema, and brands the result.
+ *   Validation failures carry the structured `issues` of the underlying BrandedValidationError.
+ * - `deserializeOrThrow()` calls deserialize() and throws on failure; validation
+ *   failures are thrown as a BrandedValidationError.
+ *
+ * Pass `{ autoBrand: true }` to round-trip interfaces with branded-interface fields:
+ * nested plain objects in the parsed JSON are validated and branded as well.
+ * Pass `{ coerce: true }` to accept JSON produced by loosely typed sources, e.g.
+ * numbers and booleans encoded as strings. Pass `opaque` to choose how opaque
+ * values are written (see OpaqueSerializationPolicy; omitted by default).
  *
  * @param definition - The branded interface definition to create a serializer for
+ * @param options - Opaque value policy, and options forwarded to the definition's
+ *   create() on deserialization
  * @returns An InterfaceSerializer bound to the definition
  */
 export function interfaceSerializer<T extends Record<string, unknown>>(
-  definition: BrandedInterfaceDefinition<T>
+  definition: BrandedInterfaceDefinition<T>,
+  options?: InterfaceSerializerOptions
 ): InterfaceSerializer<T> {
+  const opaquePolicy = options?.opaque ?? 'omit';
+  const decodeContext: DecodeContext = {
+    selfId: definition.id,
+    rewrapOpaque: typeof opaquePolicy === 'object',
+  };
+
   return {
     serialize(instance: BrandedInstance<T>): string {
       // Extract only enumerable properties (Symbols are non-enumerable)
@@ -48,7 +234,7 @@ export function interfaceSerializer<T extends Record<string, unknown>>(
       for (const key of Object.keys(instance)) {
         plain[key] = instance[key as keyof typeof instance];
       }
-      return JSON.stringify(plain);
+      return JSON.stringify(plain, (_key, value: unknown) => encodeValue(value, opaquePolicy));
     },
 
     deserialize(input: unknown): InterfaceDeserializeResult<BrandedInstance<T>> {
@@ -71,21 +257,14 @@ export function interfaceSerializer<T extends Record<string, unknown>>(
         parsed = input;
       }
 
-      // Validate against the schema
-      if (!definition.validate(parsed)) {
-        return {
-          success: false,
-          error: {
-            message: `Deserialization failed: data does not match interface "${definition.id}" schema`,
-            code: 'VALIDATION_FAILED',
-            input,
-          },
-        };
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+        const data = parsed as Record<string, unknown>;
+        parsed = decodeWireFields(data, definition.schema, decodeContext);
       }
 
-      // Brand via create()
+      // Validate against the schema and brand via create()
       try {
-        const branded = definition.create(parsed as T);
+        const branded = definition.create(parsed as T, options);
         return {
           success: true,
           value: branded,
@@ -98,6 +277,7 @@ export function interfaceSerializer<T extends Record<string, unknown>>(
             message: `Deserialization failed: ${message}`,
             code: 'VALIDATION_FAILED',
             input,
+            ...(isBrandedValidationError(err) ? { issues: err.issues } : {}),
           },
         };
       }
@@ -106,6 +286,10 @@ export function interfaceSerializer<T extends Record<string, unknown>>(
     deserializeOrThrow(input: unknown): BrandedInstance<T> {
       const result = this.deserialize(input);
       if (!result.success) {
+        // Re-throw validation failures with their structured issues intact
+        if (result.error.issues) {
+          throw new BrandedValidationError(definition.id, result.error.issues);
+        }
         throw new Error(result.error.message);
       }
       return result.value;
@@ -6,7 +6,7 @@
  * supertype with compatible types.
  */
 
-import { BrandedInterfaceDefinition } from './types.js';
+import { BrandedInterfaceDefinition, FieldDescriptor } from './types.js';
 
 // =============================================================================
 // isSubtype
@@ -18,6 +18,9 @@ import { BrandedInterfaceDefinition } from './types.js';
  * A candidate is a subtype if it contains every field in the supertype's schema
  * with a compatible type. Compatible means same `type` value, and if `ref` is
  * present in the supertype field, the candidate field must have the same `ref`.
+ * Literal and union fields are compared by the values they accept: a literal is
+ * compatible with its own base type, and a union with a field when each of its
+ * members is compatible (or, as the supertype, when one of its members is).
  *
  * @param candidate - The definition to check as a potential subtype
  * @param supertype - The definition to check against
@@ -35,15 +38,46 @@ export function isSubtype(
       return false;
     }
 
-    // Type mismatch — not a subtype
-    if (candidateDesc.type !== supertypeDesc.type) {
+    if (!isFieldSubtype(candidateDesc, supertypeDesc)) {
       return false;
     }
+  }
 
-    // Ref mismatch — not a subtype
-    if (supertypeDesc.ref !== undefined && candidateDesc.ref !== supertypeDesc.ref) {
-      return false;
-    }
+  return true;
+}
+
+/**
+ * Checks whether every value accepted by `candidate` is accepted by `supertype`.
+ */
+function isFieldSubtype(candidate: FieldDescriptor, supertype: FieldDescriptor): boolean {
+  // A candidate union is a subtype when each of its members is
+  if (candidate.type === 'union') {
+    return (candidate.members ?? []).every((member) => isFieldSubtype(member, supertype));
+  }
+
+  // A supertype union accepts the candidate when one of its members does
+  if (supertype.type === 'union') {
+    return (supertype.members ?? []).some((member) => isFieldSubtype(candidate, member));
+  }
+
+  // A literal is a subtype of its own base type
+  if (candidate.type === 'literal' && supertype.type !== 'literal') {
+    return typeof candidate.value === supertype.type;
+  }
+
+  // Type mismatch — not a subtype
+  if (candidate.type !== supertype.type) {
+    return false;
+  }
+
+  // Literal value mismatch — not a subtype
+  if (supertype.type === 'literal' && candidate.value !== supertype.value) {
+    return false;
+  }
+
+  // Ref mismatch — not a subtype
+  if (supertype.ref !== undefined && candidate.ref !== supertype.ref) {
+    return false;
   }
 
   return true;
@@ -5,6 +5,8 @@
  * branded primitives, and opaque types.
  */
 
+import type { BrandedEnumMetadata } from '../types.js';
+
 // =============================================================================
 // Unique Symbols for Metadata
 // =============================================================================
@@ -25,6 +27,11 @@ export const INTERFACE_SCHEMA: unique symbol = Symbol.for('@digitaldefiance/bran
  */
 export const INTERFACE_VERSION: unique symbol = Symbol.for('@digitaldefiance/branded-interface:INTERFACE_VERSION');
 
+/**
+ * Symbol key identifying interface union definitions (stores the union ID).
+ */
+export const INTERFACE_UNION: unique symbol = Symbol.for('@digitaldefiance/branded-interface:INTERFACE_UNION');
+
 /**
  * Symbol key for storing the primitive ID metadata.
  */
@@ -47,20 +54,85 @@ export const OPAQUE_ID: unique symbol = Symbol.for('@digitaldefiance/branded-int
 /**
  * Base types supported for interface fields.
  */
-export type FieldBaseType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+export type FieldBaseType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'date'
+  | 'bigint'
+  | 'bytes';
 
 /**
  * Descriptor for a single field in a branded interface schema.
  */
 export interface FieldDescriptor {
-  readonly type: FieldBaseType | 'branded-enum' | 'branded-interface' | 'branded-primitive';
+  readonly type:
+    | FieldBaseType
+    | 'branded-enum'
+    | 'branded-interface'
+    | 'branded-primitive'
+    | 'branded-opaque'
+    | 'union'
+    | 'literal'
+    | 'tuple'
+    | 'record';
   readonly optional?: boolean;
   readonly nullable?: boolean;
   readonly validate?: (value: unknown) => boolean;
-  /** Reference to a branded enum, interface, or primitive definition for cross-validation */
+  /**
+   * Async predicate (e.g. a uniqueness lookup) run after all synchronous checks pass.
+   * Definitions declaring one must be used through createAsync().
+   */
+  readonly validateAsync?: (value: unknown) => Promise<boolean>;
+  /**
+   * Reference to a branded enum, interface, or primitive definition for cross-validation.
+   * Refs are resolved when a value is validated, so they may name definitions created
+   * later; a branded-interface ref of `'self'` names the interface declaring the field.
+   */
   readonly ref?: string;
   /** For array fields, the element type descriptor */
   readonly items?: FieldDescriptor;
+  /** For union fields, the descriptors a value may match; the first match wins */
+  readonly members?: ReadonlyArray<FieldDescriptor>;
+  /** For literal fields, the only accepted value */
+  readonly value?: string | number | boolean;
+  /** For tuple fields, the positional element descriptors */
+  readonly elements?: ReadonlyArray<FieldDescriptor>;
+  /** For tuple fields, the descriptor of elements after the positional ones (none allowed if absent) */
+  readonly rest?: FieldDescriptor;
+  /** For record fields, constraints on the keys (any string key if absent) */
+  readonly keys?: RecordKeyConstraint;
+  /** For record fields, the descriptor every value must match */
+  readonly values?: FieldDescriptor;
+  /** For object fields, the schema of the nested object's properties */
+  readonly properties?: InterfaceSchema;
+  /** For object fields with properties, reject keys not declared in `properties` */
+  readonly strict?: boolean;
+  /**
+   * Value used when the field is missing (undefined): either a static value or a
+   * factory function returning a fresh value. Defaults are validated like input.
+   */
+  readonly default?: unknown;
+  /** For string values, the minimum length */
+  readonly minLength?: number;
+  /** For string values, the maximum length */
+  readonly maxLength?: number;
+  /** For string values, a regular expression source the value must match */
+  readonly pattern?: string;
+  /** For number values, the inclusive minimum */
+  readonly min?: number;
+  /** For number values, the inclusive maximum */
+  readonly max?: number;
+  /** For number values, require an integer */
+  readonly integer?: boolean;
+  /** For array values, the minimum number of items */
+  readonly minItems?: number;
+  /** For array values, the maximum number of items */
+  readonly maxItems?: number;
+  /** For array values, reject duplicate items (compared structurally, as by interfaceEquals()) */
+  readonly uniqueItems?: boolean;
 }
 
 /**
@@ -75,33 +147,474 @@ export type InterfaceSchema = Record<string, FieldDescriptor>;
 /**
  * Metadata attached to branded interface instances via Symbol properties.
  * Non-enumerable and invisible to Object.keys(), JSON.stringify(), etc.
+ * `Id` is the interface ID as a literal type, when known.
  */
-export interface BrandedInterfaceMetadata {
-  readonly [INTERFACE_ID]: string;
+export interface BrandedInterfaceMetadata<Id extends string = string> {
+  readonly [INTERFACE_ID]: Id;
   readonly [INTERFACE_SCHEMA]: InterfaceSchema;
 }
 
 /**
  * A branded interface instance — combines the user's data with metadata.
  * The object is frozen (Readonly) to prevent modification after creation.
+ * With a literal `Id`, instances of structurally identical interfaces are
+ * distinct types.
  */
-export type BrandedInstance<T extends Record<string, unknown>> = Readonly<T> & BrandedInterfaceMetadata;
+export type BrandedInstance<
+  T extends Record<string, unknown>,
+  Id extends string = string,
+> = Readonly<T> & BrandedInterfaceMetadata<Id>;
+
+/**
+ * Constraints on the keys of a record field.
+ */
+export interface RecordKeyConstraint {
+  /** Regular expression source every key must match, e.g. `'^[A-Z]{3}$'` */
+  readonly pattern?: string;
+  /** ID of a branded enum whose values are the allowed keys */
+  readonly ref?: string;
+}
 
 /**
  * The definition object returned by createBrandedInterface().
  * Contains the schema, validator, constructor, and metadata for a branded interface type.
+ * `Id` is the interface ID as a literal type, carried into the instances it creates.
  */
-export interface BrandedInterfaceDefinition<T extends Record<string, unknown> = Record<string, unknown>> {
-  readonly id: string;
+export interface BrandedInterfaceDefinition<
+  T extends Record<string, unknown> = Record<string, unknown>,
+  Id extends string = string,
+> {
+  readonly id: Id;
   readonly schema: InterfaceSchema;
   readonly version: number;
-  readonly create: (data: T) => BrandedInstance<T>;
+  /** Handling of undeclared keys; absent when not configured (behaves as 'passthrough') */
+  readonly unknownKeys?: UnknownKeysMode;
+  /** Interface-level refinements; absent when none are configured */
+  readonly refinements?: ReadonlyArray<InterfaceRefinement<T>>;
+  /** Async interface-level refinements; absent when none are configured */
+  readonly asyncRefinements?: ReadonlyArray<AsyncInterfaceRefinement<T>>;
+  /** Throws if the schema declares async validators; use createAsync() for those */
+  readonly create: (data: T, options?: InterfaceCreateOptions) => BrandedInstance<T, Id>;
+  /**
+   * Never throws and never coerces; returns false if the schema declares async
+   * validators, which only validateAsync() can run
+   */
   readonly validate: (data: unknown) => data is T;
-  readonly [INTERFACE_ID]: string;
+  /** Like create(), additionally running async field validators and refinements */
+  readonly createAsync: (
+    data: T,
+    options?: InterfaceCreateOptions
+  ) => Promise<BrandedInstance<T, Id>>;
+  /** Like validate(), additionally running async field validators and refinements */
+  readonly validateAsync: (data: unknown) => Promise<boolean>;
+  /**
+   * Returns a new instance with the patch applied. Only the patched fields are
+   * re-validated (refinements run against the result); emits an `update` event.
+   */
+  readonly update: (
+    instance: BrandedInstance<T>,
+    patch: Partial<T>,
+    options?: InterfaceCreateOptions
+  ) => BrandedInstance<T, Id>;
+  /**
+   * Returns a new instance with the value at `path` replaced, e.g.
+   * `['address', 'zip']`. Branded instances along the path are rebuilt through
+   * their own definition, so they keep their brand; emits `update` events.
+   */
+  readonly setIn: (
+    instance: BrandedInstance<T>,
+    path: ReadonlyArray<ValidationPathSegment>,
+    value: unknown,
+    options?: InterfaceCreateOptions
+  ) => BrandedInstance<T, Id>;
+  /**
+   * Brands data already known to be valid, such as records read back from
+   * your own database, without validating it: no defaults, coercion or
+   * refinements are applied. Emits a `trusted` event so trusted branding stays
+   * auditable. Outside production, `trustedSampleRate` of the calls validate
+   * the data anyway and throw on failure.
+   */
+  readonly brandTrusted: (data: T) => BrandedInstance<T, Id>;
+  readonly [INTERFACE_ID]: Id;
   readonly [INTERFACE_SCHEMA]: InterfaceSchema;
   readonly [INTERFACE_VERSION]: number;
 }
 
+/**
+ * The definition object returned by createInterfaceUnion(): a discriminated
+ * union of branded interfaces. create() and validate() select the member whose
+ * key equals the value of the discriminator field; instances are branded with
+ * the member's ID.
+ */
+export interface BrandedInterfaceUnionDefinition<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> {
+  readonly id: string;
+  /** Name of the field whose value selects the member */
+  readonly discriminator: string;
+  /** Member definitions keyed by discriminator value */
+  readonly members: Readonly<Record<string, BrandedInterfaceDefinition>>;
+  readonly create: (data: T, options?: InterfaceCreateOptions) => BrandedInstance<T>;
+  readonly validate: (data: unknown) => data is T;
+  readonly createAsync: (data: T, options?: InterfaceCreateOptions) => Promise<BrandedInstance<T>>;
+  readonly validateAsync: (data: unknown) => Promise<boolean>;
+  readonly [INTERFACE_UNION]: string;
+}
+
+/**
+ * How create() treats keys that are not declared in the schema:
+ * - `passthrough`: copy them into the instance unchanged
+ * - `strip`: silently drop them from the instance
+ * - `strict`: report each one as an `unrecognized_key` validation issue
+ */
+export type UnknownKeysMode = 'passthrough' | 'strip' | 'strict';
+
+/**
+ * Reports issues from an interface-level refinement.
+ */
+export interface RefinementContext {
+  /**
+   * Reports a failure. `path` points at the offending field (e.g. `['endDate']`);
+   * when omitted the issue is reported against the interface as a whole.
+   */
+  addIssue(issue: {
+    readonly message: string;
+    readonly path?: ReadonlyArray<ValidationPathSegment>;
+  }): void;
+}
+
+/**
+ * An interface-level check, e.g. a cross-field rule such as "endDate must be
+ * after startDate". Refinements run in order once every field is valid, and
+ * report failures through `ctx.addIssue()`. Returning `false` without adding
+ * an issue reports a generic failure naming the refinement function.
+ */
+export type InterfaceRefinement<T extends Record<string, unknown> = Record<string, unknown>> = (
+  data: Readonly<T>,
+  ctx: RefinementContext
+) => boolean | void;
+
+/**
+ * An async interface-level check, e.g. "referenced MRN exists". Async
+ * refinements run concurrently once every field, including async field
+ * validators, is valid; otherwise they behave like InterfaceRefinement.
+ */
+export type AsyncInterfaceRefinement<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> = (data: Readonly<T>, ctx: RefinementContext) => Promise<boolean | void>;
+
+/**
+ * Options accepted by createBrandedInterface().
+ */
+export interface BrandedInterfaceOptions<
+  T extends Record<string, unknown> = Record<string, unknown>,
+> {
+  /** Version number of the definition (default: 1) */
+  readonly version?: number;
+  /** Default for every create() call; per-call options take precedence */
+  readonly collectAllErrors?: boolean;
+  /** Default for create() and validate(); per-call create() options take precedence */
+  readonly autoBrand?: boolean;
+  /** Handling of undeclared keys (default: 'passthrough') */
+  readonly unknownKeys?: UnknownKeysMode;
+  /** Default for create(); per-call create() options take precedence. validate() never coerces */
+  readonly coerce?: boolean;
+  /** Interface-level refinements run after field validation by create() and validate() */
+  readonly refinements?: ReadonlyArray<InterfaceRefinement<T>>;
+  /** Async interface-level refinements, run by createAsync() and validateAsync() */
+  readonly asyncRefinements?: ReadonlyArray<AsyncInterfaceRefinement<T>>;
+  /**
+   * Deep-copy and freeze arrays and plain objects reachable from each instance,
+   * not only the instance itself (default: true unless NODE_ENV is 'production')
+   */
+  readonly deepFreeze?: boolean;
+  /**
+   * Fraction (0 to 1) of brandTrusted() calls whose data is validated anyway,
+   * to catch drift between trusted sources and the schema. Ignored when
+   * NODE_ENV is 'production' and for definitions with async validators
+   * (default: 0)
+   */
+  readonly trustedSampleRate?: number;
+}
+
+/**
+ * Per-call options accepted by create() and safeParseInterface().
+ */
+export interface InterfaceCreateOptions {
+  /** Walk every field and report all failures instead of stopping at the first */
+  readonly collectAllErrors?: boolean;
+  /**
+   * Accept plain objects in branded-interface ref fields (including arrays of refs):
+   * validate them against the referenced definition and brand them in the result
+   */
+  readonly autoBrand?: boolean;
+  /**
+   * Convert loosely typed input (e.g. strings from query strings, forms or CSV)
+   * to each field's type before validating it
+   */
+  readonly coerce?: boolean;
+}
+
+// =============================================================================
+// Schema Inference Types
+// =============================================================================
+
+/** Type-only key of the placeholder member of InterfaceRefTypes */
+declare const REF_TYPES_PLACEHOLDER: unique symbol;
+
+/**
+ * Definitions that schema refs name, keyed by ID, for InferInstance. Refs are
+ * plain strings, so their types are declared by augmenting this interface:
+ *
+ * ```ts
+ * declare module '@digitaldefiance/branded-interface' {
+ *   interface InterfaceRefTypes {
+ *     Color: typeof Color;
+ *     Address: typeof Address;
+ *   }
+ * }
+ * ```
+ *
+ * Refs to IDs not declared here infer as `unknown`.
+ */
+export interface InterfaceRefTypes {
+  /** Keeps the interface non-empty; string refs never match a symbol key */
+  readonly [REF_TYPES_PLACEHOLDER]?: never;
+}
+
+/**
+ * Type of the values a ref to definition `D` accepts: instances of an
+ * interface, values of an enum, primitive or opaque type.
+ */
+export type InferRefValue<D> =
+  D extends BrandedInterfaceDefinition<infer T, infer Id>
+    ? BrandedInstance<T, Id>
+    : D extends BrandedPrimitiveDefinition<infer P, infer Id>
+      ? BrandedPrimitiveValue<P, Id>
+      : D extends OpaqueTypeDefinition<infer V>
+        ? OpaqueValue<V>
+        : D extends BrandedEnumMetadata
+          ? D[Extract<keyof D, string>]
+          : unknown;
+
+/**
+ * Resolves a ref ID through InterfaceRefTypes; `'self'` resolves to instances
+ * of `Root`, the schema of the interface declaring the field.
+ */
+type InferRef<Ref, Root> = Ref extends 'self'
+  ? Root extends InterfaceSchema
+    ? BrandedInstance<InferInstance<Root>>
+    : unknown
+  : Ref extends keyof InterfaceRefTypes
+    ? InferRefValue<InterfaceRefTypes[Ref]>
+    : unknown;
+
+/** Maps positional tuple element descriptors to their value types */
+type InferTupleElements<E, Root> = {
+  -readonly [K in keyof E]: E[K] extends FieldDescriptor ? InferFieldValue<E[K], Root> : never;
+};
+
+/** Key type of a record field: an enum ref's values, or any string */
+type InferRecordKey<D> = D extends { readonly keys: { readonly ref: infer Ref } }
+  ? Extract<InferRef<Ref, never>, string> extends never
+    ? string
+    : Extract<InferRef<Ref, never>, string>
+  : string;
+
+type InferFieldType<D extends FieldDescriptor, Root> = D extends { readonly type: 'string' }
+  ? string
+  : D extends { readonly type: 'number' }
+    ? number
+    : D extends { readonly type: 'boolean' }
+      ? boolean
+      : D extends { readonly type: 'date' }
+        ? Date
+        : D extends { readonly type: 'bigint' }
+          ? bigint
+          : D extends { readonly type: 'bytes' }
+            ? Uint8Array
+            : D extends { readonly type: 'literal'; readonly value: infer V }
+              ? V
+              : D extends { readonly type: 'object'; readonly properties: infer P }
+                ? InferFields<P, Root>
+                : D extends { readonly type: 'object' }
+                  ? Record<string, unknown>
+                  : D extends { readonly type: 'array'; readonly items: infer I }
+                    ? I extends FieldDescriptor
+                      ? InferFieldValue<I, Root>[]
+                      : unknown[]
+                    : D extends {
+                          readonly type: 'tuple';
+                          readonly elements: infer E extends ReadonlyArray<FieldDescriptor>;
+                        }
+                      ? [
+                          ...InferTupleElements<E, Root>,
+                          ...(D extends { readonly rest: infer R extends FieldDescriptor }
+                            ? InferFieldValue<R, Root>[]
+                            : []),
+                        ]
+                      : D extends { readonly type: 'record'; readonly values: infer V }
+                        ? string extends InferRecordKey<D>
+                          ? Record<string, V extends FieldDescriptor ? InferFieldValue<V, Root> : unknown>
+                          : Partial<
+                              Record<
+                                InferRecordKey<D>,
+                                V extends FieldDescriptor ? InferFieldValue<V, Root> : unknown
+                              >
+                            >
+                        : D extends { readonly type: 'union'; readonly members: infer M }
+                          ? M extends ReadonlyArray<infer Member extends FieldDescriptor>
+                            ? InferFieldValue<Member, Root>
+                            : unknown
+                          : D extends { readonly ref: infer Ref }
+                            ? InferRef<Ref, Root>
+                            : unknown;
+
+/**
+ * Value type of a field descriptor, including `null` for nullable fields.
+ * `Root` is the schema of the interface declaring the field, which `'self'`
+ * refs resolve to.
+ */
+export type InferFieldValue<D extends FieldDescriptor, Root = InterfaceSchema> =
+  D extends { readonly [FIELD_TYPE]: { readonly value: infer V } }
+    ? V
+    :
+        | InferFieldType<D, Root>
+        | (D extends { readonly nullable: true } ? null : never);
+
+/** Fields that create() accepts missing: optional ones and ones with a default */
+type OptionalFieldKeys<S> = {
+  [K in keyof S]: S[K] extends
+    | { readonly optional: true }
+    | { readonly default: unknown }
+    | { readonly [FIELD_TYPE]: { readonly optional: true } }
+    ? K
+    : never;
+}[keyof S];
+
+type InferFields<S, Root> = string extends keyof S
+  ? Record<string, unknown>
+  : {
+      -readonly [K in Exclude<keyof S, OptionalFieldKeys<S>> & string]: S[K] extends FieldDescriptor
+        ? InferFieldValue<S[K], Root>
+        : unknown;
+    } & {
+      -readonly [K in OptionalFieldKeys<S> & string]?: S[K] extends FieldDescriptor
+        ? InferFieldValue<S[K], Root>
+        : unknown;
+    };
+
+/**
+ * Instance data type described by a schema declared `as const`:
+ *
+ * ```ts
+ * const schema = {
+ *   name: { type: 'string' },
+ *   nickname: { type: 'string', optional: true },
+ *   tags: { type: 'array', items: { type: 'string' } },
+ * } as const;
+ * type User = InferInstance<typeof schema>; // { name: string; nickname?: string; tags: string[] }
+ * ```
+ *
+ * Optional fields and fields with a default are optional properties, nullable
+ * fields include `null`, and refs resolve through InterfaceRefTypes. A schema
+ * typed as the wide `InterfaceSchema` infers `Record<string, unknown>`.
+ */
+export type InferInstance<S extends InterfaceSchema> = Flatten<InferFields<S, S>>;
+
+/**
+ * Instance type createBrandedInterface() infers from a schema: InferInstance
+ * for schemas declared `as const`, and `Record<string, unknown>` for any other
+ * schema, as before schema inference existed.
+ */
+export type InferDefinitionInstance<S extends InterfaceSchema> =
+  IsIdentical<S, Readonly<S>> extends true ? InferInstance<S> : Record<string, unknown>;
+
+/** Merges an intersection of object types into a single object type */
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+/** Exact type identity, distinguishing readonly from mutable properties */
+type IsIdentical<A, B> =
+  (<G>() => G extends A ? 1 : 2) extends <G>() => G extends B ? 1 : 2 ? true : false;
+
+// =============================================================================
+// Schema DSL Types
+// =============================================================================
+
+/** Type-only key of the static type a TypedFieldDescriptor carries */
+declare const FIELD_TYPE: unique symbol;
+
+/**
+ * A FieldDescriptor built by the `t` schema DSL. Besides the runtime
+ * descriptor it carries, for inference only, the type of the values the field
+ * accepts and whether create() accepts it missing.
+ */
+export type TypedFieldDescriptor<V, Optional extends boolean = false> = FieldDescriptor & {
+  readonly [FIELD_TYPE]: { readonly value: V; readonly optional: Optional };
+};
+
+/**
+ * A field built by the `t` schema DSL. Builders are immutable: every method
+ * returns a new field.
+ */
+export interface SchemaFieldType<V, Optional extends boolean = false> {
+  /** The ordinary field descriptor this field stands for */
+  readonly descriptor: TypedFieldDescriptor<V, Optional>;
+  /** Lets the field be missing */
+  optional(): SchemaFieldType<V, true>;
+  /** Lets the field be `null` */
+  nullable(): SchemaFieldType<V | null, Optional>;
+  /** Uses `value`, or the result of calling it, when the field is missing */
+  default(value: V | (() => V)): SchemaFieldType<V, true>;
+}
+
+/** A string field built by `t.string()` */
+export interface StringSchemaFieldType extends SchemaFieldType<string> {
+  /** Requires at least `length` characters */
+  min(length: number): StringSchemaFieldType;
+  /** Allows at most `length` characters */
+  max(length: number): StringSchemaFieldType;
+  /** Requires a match of `pattern`; only its source is kept, not its flags */
+  pattern(pattern: RegExp | string): StringSchemaFieldType;
+}
+
+/** A number field built by `t.number()` */
+export interface NumberSchemaFieldType extends SchemaFieldType<number> {
+  /** Requires an integer */
+  int(): NumberSchemaFieldType;
+  /** Requires a value of at least `value` */
+  min(value: number): NumberSchemaFieldType;
+  /** Requires a value of at most `value` */
+  max(value: number): NumberSchemaFieldType;
+}
+
+/** An array field built by `t.array()` */
+export interface ArraySchemaFieldType<V> extends SchemaFieldType<V[]> {
+  /** Requires at least `count` items */
+  min(count: number): ArraySchemaFieldType<V>;
+  /** Allows at most `count` items */
+  max(count: number): ArraySchemaFieldType<V>;
+  /** Rejects duplicate items */
+  unique(): ArraySchemaFieldType<V>;
+}
+
+/** Type of the values a DSL field accepts */
+export type SchemaFieldValue<F> = F extends SchemaFieldType<infer V, boolean> ? V : never;
+
+/** DSL fields keyed by field name, as passed to `t.object()` and `t.schema()` */
+export type SchemaFieldTypes = Record<string, SchemaFieldType<unknown, boolean>>;
+
+/**
+ * The schema `t.schema()` builds from DSL fields. It is an ordinary
+ * InterfaceSchema whose instance type createBrandedInterface() infers.
+ */
+export type TypedInterfaceSchema<F extends SchemaFieldTypes> = {
+  readonly [K in keyof F]: F[K]['descriptor'];
+};
+
+/** Instance data type of DSL fields */
+export type InferSchemaFields<F extends SchemaFieldTypes> = InferInstance<TypedInterfaceSchema<F>>;
+
 // =============================================================================
 // Branded Primitive Types
 // =============================================================================
@@ -111,23 +624,44 @@ export interface BrandedInterfaceDefinition<T extends Record<string, unknown> =
  */
 export type PrimitiveBaseType = 'string' | 'number' | 'boolean';
 
+/** TypeScript type of a primitive base type, e.g. `number` for `'number'` */
+export type PrimitiveValueType<B extends PrimitiveBaseType> = B extends 'string'
+  ? string
+  : B extends 'number'
+    ? number
+    : boolean;
+
+/**
+ * A value accepted by a branded primitive. The brand exists only at compile
+ * time; with a literal `Id`, values of different primitives (an `Email` and a
+ * `Uuid`, say) are not interchangeable.
+ */
+export type BrandedPrimitiveValue<
+  T extends string | number | boolean,
+  Id extends string = string,
+> = T & { readonly __brand: Id };
+
 /**
  * Metadata attached to branded primitive definitions via Symbol properties.
  */
-export interface BrandedPrimitiveMetadata {
-  readonly [PRIMITIVE_ID]: string;
+export interface BrandedPrimitiveMetadata<Id extends string = string> {
+  readonly [PRIMITIVE_ID]: Id;
   readonly [PRIMITIVE_BASE_TYPE]: PrimitiveBaseType;
 }
 
 /**
  * The definition object returned by createBrandedPrimitive().
+ * `Id` is the primitive ID as a literal type, carried into the values it brands.
  */
-export interface BrandedPrimitiveDefinition<T extends string | number | boolean = string | number | boolean> {
-  readonly id: string;
+export interface BrandedPrimitiveDefinition<
+  T extends string | number | boolean = string | number | boolean,
+  Id extends string = string,
+> {
+  readonly id: Id;
   readonly baseType: PrimitiveBaseType;
-  readonly create: (value: T) => T & { readonly __brand: string };
+  readonly create: (value: T) => BrandedPrimitiveValue<T, Id>;
   readonly validate: (value: unknown) => value is T;
-  readonly [PRIMITIVE_ID]: string;
+  readonly [PRIMITIVE_ID]: Id;
   readonly [PRIMITIVE_BASE_TYPE]: PrimitiveBaseType;
 }
 
@@ -167,8 +701,12 @@ export const INTERFACE_REGISTRY_KEY = '__brandedInterfaceRegistry__' as const;
  */
 export interface InterfaceRegistryEntry {
   readonly id: string;
-  readonly kind: 'interface' | 'primitive' | 'opaque';
-  readonly definition: BrandedInterfaceDefinition | BrandedPrimitiveDefinition | OpaqueTypeDefinition<unknown>;
+  readonly kind: 'interface' | 'primitive' | 'opaque' | 'union';
+  readonly definition:
+    | BrandedInterfaceDefinition
+    | BrandedPrimitiveDefinition
+    | OpaqueTypeDefinition<unknown>
+    | BrandedInterfaceUnionDefinition;
 }
 
 /**
@@ -177,6 +715,12 @@ export interface InterfaceRegistryEntry {
  */
 export interface InterfaceRegistry {
   readonly entries: Map<string, InterfaceRegistryEntry>;
+  /**
+   * Incremented whenever entries are added or cleared, so that compiled
+   * validators know to re-resolve their refs. Absent in registries created by
+   * older copies of the library, which change entries without counting.
+   */
+  revision?: number;
 }
 
 // =============================================================================
@@ -186,7 +730,7 @@ export interface InterfaceRegistry {
 /**
  * Types of events emitted by branded interface operations.
  */
-export type InterfaceEventType = 'create' | 'validate';
+export type InterfaceEventType = 'create' | 'validate' | 'update' | 'trusted';
 
 /**
  * Event object passed to watcher callbacks.
@@ -203,6 +747,53 @@ export interface InterfaceAccessEvent {
  */
 export type InterfaceWatchCallback = (event: InterfaceAccessEvent) => void;
 
+// =============================================================================
+// Validation Issue Types
+// =============================================================================
+
+/**
+ * Machine-readable reason a value failed validation.
+ */
+export type ValidationIssueCode =
+  | 'required'
+  | 'type_mismatch'
+  | 'enum_mismatch'
+  | 'ref_missing'
+  | 'ref_mismatch'
+  | 'unrecognized_key'
+  | 'invalid_discriminator'
+  | 'invalid_literal'
+  | 'invalid_union'
+  | 'invalid_key'
+  | 'too_small'
+  | 'too_big'
+  | 'pattern_mismatch'
+  | 'not_integer'
+  | 'not_unique'
+  | 'circular_reference'
+  | 'custom';
+
+/**
+ * A single segment of an issue path: a field name or an array index.
+ */
+export type ValidationPathSegment = string | number;
+
+/**
+ * A single validation failure, as carried by BrandedValidationError.
+ */
+export interface ValidationIssue {
+  /** Location of the failing value, e.g. `['tags', 2]` or `['address', 'zip']`; empty for the input itself */
+  readonly path: ReadonlyArray<ValidationPathSegment>;
+  readonly code: ValidationIssueCode;
+  readonly message: string;
+  /** ID of the interface whose schema produced the issue */
+  readonly interfaceId: string;
+  /** Expected type or referenced type ID, when applicable */
+  readonly expected?: string;
+  /** Actual type of the offending value, when applicable */
+  readonly actual?: string;
+}
+
 // =============================================================================
 // Serialization Result Types
 // =============================================================================
@@ -218,6 +809,7 @@ export interface InterfaceDeserializeFailure {
     readonly message: string;
     readonly code: string;
     readonly input: unknown;
+    readonly issues?: ReadonlyArray<ValidationIssue>;
   };
 }
 
@@ -240,6 +832,7 @@ export interface InterfaceSafeParseFailure {
     readonly input: unknown;
     readonly interfaceId?: string;
     readonly fieldErrors?: ReadonlyArray<{ field: string; message: string }>;
+    readonly issues?: ReadonlyArray<ValidationIssue>;
   };
 }
 
@@ -286,6 +879,7 @@ export interface CodecFailure {
     readonly message: string;
     readonly step: number;
     readonly input: unknown;
+    readonly issues?: ReadonlyArray<ValidationIssue>;
   };
 }
 
@@ -319,6 +913,28 @@ export interface BrandedInterfaceBuilder<T extends Record<string, unknown> = Rec
   readonly build: () => BrandedInterfaceDefinition<T>;
 }
 
+// =============================================================================
+// Draft Types
+// =============================================================================
+
+/**
+ * Mutable view of an instance handed to a produce() recipe: readonly modifiers
+ * are removed at every level. Dates and byte arrays are values, not drafts —
+ * assign a new one rather than mutating it.
+ */
+export type InterfaceDraft<T> = T extends Date | Uint8Array | ((...args: never[]) => unknown)
+  ? T
+  : T extends ReadonlyArray<infer U>
+    ? InterfaceDraft<U>[]
+    : T extends object
+      ? { -readonly [K in keyof T]: InterfaceDraft<T[K]> }
+      : T;
+
+/** Recipe passed to produce(); edits the draft in place */
+export type InterfaceDraftRecipe<T extends Record<string, unknown>> = (
+  draft: InterfaceDraft<T>
+) => void;
+
 // =============================================================================
 // JSON Schema Output Types
 // =============================================================================
@@ -330,6 +946,26 @@ export interface InterfaceJsonSchema {
   readonly properties: Record<string, unknown>;
   readonly required: string[];
   readonly additionalProperties: boolean;
+  /** Subschemas of referenced interfaces (draft 2020-12) */
+  readonly $defs?: Record<string, unknown>;
+  /** Subschemas of referenced interfaces (draft 07) */
+  readonly definitions?: Record<string, unknown>;
+}
+
+/**
+ * JSON Schema for an interface union: one subschema per member, each pinning
+ * the discriminator property with `const`, plus an OpenAPI-style
+ * `discriminator` annotation.
+ */
+export interface InterfaceUnionJsonSchema {
+  readonly $schema: string;
+  readonly title: string;
+  readonly oneOf: ReadonlyArray<Omit<InterfaceJsonSchema, '$schema'>>;
+  readonly discriminator: { readonly propertyName: string };
+  /** Subschemas of referenced interfaces (draft 2020-12) */
+  readonly $defs?: Record<string, unknown>;
+  /** Subschemas of referenced interfaces (draft 07) */
+  readonly definitions?: Record<string, unknown>;
 }
 
 // =============================================================================
@@ -339,4 +975,18 @@ export interface InterfaceJsonSchema {
 export interface InterfaceZodSchemaDefinition {
   readonly interfaceId: string;
   readonly fields: Record<string, { zodType: string; optional: boolean; nullable: boolean }>;
+  /** Zod object modifier matching the definition's unknown-key handling */
+  readonly unknownKeys: UnknownKeysMode;
+}
+
+/**
+ * Zod schema definition for an interface union.
+ */
+export interface InterfaceUnionZodSchemaDefinition {
+  readonly unionId: string;
+  readonly discriminator: string;
+  /** Member schema definitions keyed by discriminator value */
+  readonly members: Readonly<Record<string, InterfaceZodSchemaDefinition>>;
+  /** The complete `z.discriminatedUnion(...)` expression */
+  readonly zodType: string;
 }
@@ -0,0 +1,356 @@
+/**
+ * Helpers shared by the schema validators of compiler.ts and the modules that
+ * read schemas: value descriptions, input coercion, defaults, ref resolution,
+ * async-validator detection and branding. Internal module — the public
+ * surface is the definition's create() and validate().
+ */
+
+import {
+  INTERFACE_ID,
+  INTERFACE_SCHEMA,
+  OPAQUE_ID,
+  InterfaceSchema,
+  FieldDescriptor,
+  BrandedInstance,
+  BrandedPrimitiveDefinition,
+  PrimitiveBaseType,
+  UnknownKeysMode,
+} from './types.js';
+
+import { getInterfaceById } from './registry.js';
+import { getEnumById } from '../registry.js';
+import { ENUM_VALUES } from '../types.js';
+import { decodeWireValue } from './wire.js';
+
+// =============================================================================
+// Shared Helpers
+// =============================================================================
+
+/**
+ * Error thrown when a synchronous run meets an async validator.
+ */
+export function asyncRequiredError(ctx: {
+  readonly rootId: string;
+  readonly interfaceId: string;
+}): Error {
+  return new Error(
+    ctx.interfaceId === ctx.rootId
+      ? `Interface "${ctx.rootId}" declares async validators; use createAsync() or validateAsync()`
+      : `Interface "${ctx.interfaceId}" declares async validators; validate "${ctx.rootId}" with createAsync() or validateAsync()`
+  );
+}
+
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    (typeof value === 'object' || typeof value === 'function') &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === 'function'
+  );
+}
+
+/**
+ * Describes the runtime type of a value for error reporting.
+ */
+export function describeValueType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? 'invalid date' : 'date';
+  if (value instanceof Uint8Array) return 'bytes';
+  return typeof value;
+}
+
+// =============================================================================
+// Coercion
+// =============================================================================
+
+const TRUE_STRINGS = new Set(['true', '1', 'yes', 'on']);
+const FALSE_STRINGS = new Set(['false', '0', 'no', 'off']);
+
+/**
+ * Converts a loosely typed value to the type a descriptor expects.
+ *
+ * Rules (values that do not follow a rule are returned unchanged, so that
+ * validation reports them as usual):
+ * - any non-string field: `''` becomes `undefined` (an empty form input is a missing value)
+ * - `string`: numbers, booleans and bigints become their string form
+ * - `number`: numeric strings (trimmed) become numbers
+ * - `boolean`: `'true' | '1' | 'yes' | 'on'` and `'false' | '0' | 'no' | 'off'`
+ *   (trimmed, case-insensitive) become booleans
+ * - `array` / `tuple`: a string is split on commas into trimmed items (`'a, b'` → `['a', 'b']`);
+ *   items are then coerced against their descriptors
+ * - `object` / `record`: a string holding a JSON object is parsed
+ * - `branded-enum`: a string matching a member value case-insensitively becomes that value
+ * - `branded-primitive`: coerced according to the primitive's base type
+ * - `date`, `bigint`, `bytes`: ISO date strings, decimal strings and base64 strings
+ *   are decoded (the serializer's wire encodings)
+ * - `literal`: coerced according to the type of the literal value
+ * - `union`: each member applies its own rules while the value is matched against it
+ */
+export function coerceValue(value: unknown, descriptor: FieldDescriptor): unknown {
+  // Union members are coerced individually while matching them
+  if (descriptor.type === 'union') {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    if (descriptor.type === 'string' && ['number', 'boolean', 'bigint'].includes(typeof value)) {
+      return String(value);
+    }
+    return value;
+  }
+
+  if (descriptor.type === 'string') {
+    return value;
+  }
+  if (value === '') {
+    return undefined;
+  }
+
+  switch (descriptor.type) {
+    case 'number':
+    case 'boolean':
+      return coercePrimitive(value, descriptor.type);
+    case 'literal': {
+      const literalType = typeof descriptor.value;
+      return literalType === 'number' || literalType === 'boolean'
+        ? coercePrimitive(value, literalType)
+        : value;
+    }
+    case 'date':
+    case 'bigint':
+    case 'bytes':
+      return decodeWireValue(value, descriptor.type);
+    case 'array':
+    case 'tuple':
+      return value.split(',').map((item) => item.trim());
+    case 'object':
+    case 'record': {
+      if (!value.trim().startsWith('{')) {
+        return value;
+      }
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    case 'branded-enum': {
+      const enumObj = descriptor.ref ? getEnumById(descriptor.ref) : undefined;
+      if (!enumObj || enumObj[ENUM_VALUES].has(value)) {
+        return value;
+      }
+      const lower = value.toLowerCase();
+      for (const member of enumObj[ENUM_VALUES]) {
+        if (member.toLowerCase() === lower) {
+          return member;
+        }
+      }
+      return value;
+    }
+    case 'branded-primitive': {
+      const entry = descriptor.ref ? getInterfaceById(descriptor.ref) : undefined;
+      if (!entry || entry.kind !== 'primitive') {
+        return value;
+      }
+      return coercePrimitive(value, (entry.definition as BrandedPrimitiveDefinition).baseType);
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Coerces a non-empty string to a primitive base type, if it follows the rules.
+ */
+export function coercePrimitive(value: string, baseType: PrimitiveBaseType): unknown {
+  const trimmed = value.trim();
+  if (baseType === 'number') {
+    const num = Number(trimmed);
+    return trimmed !== '' && Number.isFinite(num) ? num : value;
+  }
+  if (baseType === 'boolean') {
+    const lower = trimmed.toLowerCase();
+    if (TRUE_STRINGS.has(lower)) return true;
+    if (FALSE_STRINGS.has(lower)) return false;
+  }
+  return value;
+}
+
+// =============================================================================
+// Field Helpers
+// =============================================================================
+
+/**
+ * Describes what a descriptor accepts, e.g. `string`, `"v2"` or a ref ID.
+ */
+export function describeExpected(descriptor: FieldDescriptor): string {
+  if (descriptor.type === 'literal') {
+    return JSON.stringify(descriptor.value);
+  }
+  return descriptor.ref ?? descriptor.type;
+}
+
+/**
+ * Produces a field's default value: the result of a factory function, or a
+ * copy of a static value so that instances never share mutable defaults.
+ */
+export function resolveDefault(defaultValue: unknown): unknown {
+  if (typeof defaultValue === 'function') {
+    return (defaultValue as () => unknown)();
+  }
+  if (typeof defaultValue === 'object' && defaultValue !== null) {
+    return structuredClone(defaultValue);
+  }
+  return defaultValue;
+}
+
+// =============================================================================
+// References
+// =============================================================================
+
+/**
+ * The `ref` of a branded-interface field that refers to the interface
+ * declaring the field, for recursive (tree-shaped) interfaces.
+ */
+export const SELF_REF = 'self';
+
+/**
+ * Resolves the unknown-keys mode of a definition; an unset mode behaves as
+ * 'passthrough'. Validation and the schema generators share it so they agree.
+ */
+export function resolveUnknownKeys(mode: UnknownKeysMode | undefined): UnknownKeysMode {
+  return mode ?? 'passthrough';
+}
+
+/**
+ * Resolves a branded-interface ref, mapping SELF_REF to the ID of the
+ * interface whose schema declares the field.
+ */
+export function resolveSelfRef(ref: string | undefined, selfId: string): string | undefined {
+  return ref === SELF_REF ? selfId : ref;
+}
+
+// =============================================================================
+// Async Detection
+// =============================================================================
+
+/**
+ * Whether a schema declares async field validators, including inside nested
+ * object schemas, array items and union members. References are not followed.
+ */
+export function schemaHasAsyncValidators(schema: InterfaceSchema): boolean {
+  return Object.values(schema).some(descriptorHasAsyncValidators);
+}
+
+function descriptorHasAsyncValidators(descriptor: FieldDescriptor): boolean {
+  return (
+    descriptor.validateAsync !== undefined ||
+    (descriptor.items !== undefined && descriptorHasAsyncValidators(descriptor.items)) ||
+    (descriptor.elements !== undefined && descriptor.elements.some(descriptorHasAsyncValidators)) ||
+    (descriptor.rest !== undefined && descriptorHasAsyncValidators(descriptor.rest)) ||
+    (descriptor.values !== undefined && descriptorHasAsyncValidators(descriptor.values)) ||
+    (descriptor.members !== undefined && descriptor.members.some(descriptorHasAsyncValidators)) ||
+    (descriptor.properties !== undefined && schemaHasAsyncValidators(descriptor.properties))
+  );
+}
+
+// =============================================================================
+// Branding
+// =============================================================================
+
+/**
+ * Copies data into a new frozen object carrying non-enumerable
+ * INTERFACE_ID and INTERFACE_SCHEMA Symbol metadata.
+ *
+ * With `deep`, arrays and plain objects reachable from the data are copied
+ * and frozen as well, so neither the instance nor the caller's input can be
+ * used to mutate its contents. Branded instances and other (non-plain)
+ * objects are kept as-is.
+ */
+export function brandInstance<T extends Record<string, unknown>>(
+  data: T,
+  interfaceId: string,
+  schema: InterfaceSchema,
+  deep = false
+): BrandedInstance<T> {
+  const instance = (
+    deep ? deepCopyFrozen(data, new WeakMap()) : { ...data }
+  ) as T & Record<symbol, unknown>;
+
+  Object.defineProperty(instance, INTERFACE_ID, {
+    value: interfaceId,
+    enumerable: false,
+    writable: false,
+    configurable: false,
+  });
+
+  Object.defineProperty(instance, INTERFACE_SCHEMA, {
+    value: schema,
+    enumerable: false,
+    writable: false,
+    configurable: false,
+  });
+
+  return Object.freeze(instance) as BrandedInstance<T>;
+}
+
+/**
+ * Whether a value is an array or a plain object (created by an object literal,
+ * JSON.parse() or Object.create(null)) that is not a branded instance or an
+ * opaque value.
+ */
+function isCopyable(value: unknown): value is Record<string, unknown> | unknown[] {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return (
+    (proto === Object.prototype || proto === null) &&
+    (value as Record<symbol, unknown>)[INTERFACE_ID] === undefined &&
+    (value as Record<symbol, unknown>)[OPAQUE_ID] === undefined
+  );
+}
+
+/**
+ * Copies an object's arrays and plain objects recursively, freezing every copy
+ * except the top-level one (which is branded, then frozen, by the caller).
+ * `seen` maps originals to their copies so that shared and cyclic references
+ * are preserved.
+ */
+function deepCopyFrozen(
+  data: Record<string, unknown>,
+  seen: WeakMap<object, unknown>
+): Record<string, unknown> {
+  const copy: Record<string, unknown> = {};
+  seen.set(data, copy);
+  for (const [key, value] of Object.entries(data)) {
+    copy[key] = deepFreezeValue(value, seen);
+  }
+  return copy;
+}
+
+function deepFreezeValue(value: unknown, seen: WeakMap<object, unknown>): unknown {
+  if (!isCopyable(value)) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [];
+    seen.set(value, copy);
+    for (const item of value) {
+      copy.push(deepFreezeValue(item, seen));
+    }
+    return Object.freeze(copy);
+  }
+  const copy: Record<string, unknown> =
+    Object.getPrototypeOf(value) === null ? Object.create(null) : {};
+  seen.set(value, copy);
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = deepFreezeValue(item, seen);
+  }
+  return Object.freeze(copy);
+}
@@ -1,9 +1,10 @@
 /**
- * Watch module for observing branded interface creation and validation events.
+ * Watch module for observing branded interface creation, validation, update
+ * and trusted branding events.
  *
  * Uses a watcher registry on `globalThis` under '__brandedInterfaceWatchers__'
- * to track callbacks. The factory's create() and validate() functions call
- * notifyWatchers() to invoke registered callbacks.
+ * to track callbacks. The factory's create(), validate(), update(), setIn()
+ * and brandTrusted() functions call notifyWatchers() to invoke registered callbacks.
  */
 
 import {
@@ -40,7 +41,7 @@ function getWatcherRegistry(): WatcherRegistry {
 // =============================================================================
 
 /**
- * Watch a branded interface definition for create and validate events.
+ * Watch a branded interface definition for create, validate, update and trusted branding events.
  * Returns an object with an `unwatch()` function to remove the callback.
  */
 export function watchInterface(
@@ -75,7 +76,7 @@ export function watchInterface(
 
 /**
  * Notify all registered watchers for a given interface ID.
- * Called by factory's create() and validate() functions.
+ * Called by factory's create(), validate(), update(), setIn() and brandTrusted() functions.
  */
 export function notifyWatchers(
   interfaceId: string,
@@ -0,0 +1,71 @@
+/**
+ * JSON wire encodings for field types that JSON cannot represent natively.
+ *
+ * - `date`: ISO 8601 string (`Date.prototype.toISOString()`)
+ * - `bigint`: decimal string
+ * - `bytes`: base64 string
+ *
+ * Used by the serializer to encode and decode instances, and by coercion to
+ * accept the encoded forms as input.
+ */
+
+import type { FieldDescriptor } from './types.js';
+
+/** Field types that have a wire encoding */
+export type WireFieldType = 'date' | 'bigint' | 'bytes';
+
+const BIGINT_PATTERN = /^[-+]?\d+$/;
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/**
+ * Checks whether a descriptor's type has a wire encoding.
+ */
+export function isWireFieldType(type: FieldDescriptor['type']): type is WireFieldType {
+  return type === 'date' || type === 'bigint' || type === 'bytes';
+}
+
+/**
+ * Encodes a bigint or Uint8Array to its wire form; other values are returned
+ * unchanged. Dates need no encoding: JSON.stringify() calls their toJSON(),
+ * which produces the ISO string.
+ */
+export function encodeWireValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    let binary = '';
+    for (const byte of value) {
+      binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+  }
+  return value;
+}
+
+/**
+ * Decodes the wire form of a field type. Returns the string unchanged when it
+ * is not a valid encoding, so that validation reports it as usual.
+ */
+export function decodeWireValue(value: string, type: WireFieldType): unknown {
+  const trimmed = value.trim();
+  switch (type) {
+    case 'date': {
+      const date = new Date(trimmed);
+      return trimmed !== '' && !Number.isNaN(date.getTime()) ? date : value;
+    }
+    case 'bigint':
+      return BIGINT_PATTERN.test(trimmed) ? BigInt(trimmed) : value;
+    case 'bytes': {
+      if (!BASE64_PATTERN.test(trimmed)) {
+        return value;
+      }
+      const binary = atob(trimmed);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return bytes;
+    }
+  }
+}
@@ -2,14 +2,24 @@
  * Zod schema generation for branded interface definitions.
  *
  * Maps FieldDescriptor types to Zod type strings, handles optional/nullable,
- * and resolves branded-interface refs to z.enum() constraints.
+ * resolves branded-interface refs to z.enum() constraints, appends declarative
+ * constraints as .min()/.max()/.regex()/.int() calls, expands nested
+ * object schemas into z.object({...}) expressions, tuples and records into
+ * z.tuple() and z.record(), maps date, bigint and bytes fields to z.date(),
+ * z.bigint() and z.instanceof(Uint8Array), and renders interface unions as
+ * z.discriminatedUnion() expressions.
  */
 
 import type {
   BrandedInterfaceDefinition,
+  BrandedInterfaceUnionDefinition,
   FieldDescriptor,
+  InterfaceSchema,
+  InterfaceUnionZodSchemaDefinition,
   InterfaceZodSchemaDefinition,
+  UnknownKeysMode,
 } from './types.js';
+import { resolveUnknownKeys } from './validation.js';
 import { getEnumById } from '../registry.js';
 import { ENUM_VALUES } from '../types.js';
 
@@ -44,21 +54,147 @@ function fieldToZodType(descriptor: FieldDescriptor): string {
     case 'boolean':
       base = 'z.boolean()';
       break;
+    case 'date':
+      base = 'z.date()';
+      break;
+    case 'bigint':
+      base = 'z.bigint()';
+      break;
+    case 'bytes':
+      base = 'z.instanceof(Uint8Array)';
+      break;
     case 'object':
+      base = descriptor.properties ? nestedObjectToZodType(descriptor) : 'z.object({})';
+      break;
     case 'branded-interface':
       base = 'z.object({})';
       break;
+    case 'literal':
+      base =
+        typeof descriptor.value === 'string'
+          ? `z.literal(${JSON.stringify(descriptor.value)})`
+          : `z.literal(${String(descriptor.value)})`;
+      break;
+    case 'union': {
+      const members = (descriptor.members ?? []).map(fieldToZodType);
+      base = members.length > 1 ? `z.union([${members.join(', ')}])` : (members[0] ?? 'z.never()');
+      break;
+    }
     case 'array':
       base = 'z.array(z.unknown())';
       break;
+    case 'tuple': {
+      const elements = (descriptor.elements ?? []).map((element) =>
+        element.optional ? `${fieldToZodType(element)}.optional()` : fieldToZodType(element)
+      );
+      base = `z.tuple([${elements.join(', ')}])`;
+      if (descriptor.rest) {
+        base += `.rest(${fieldToZodType(descriptor.rest)})`;
+      }
+      break;
+    }
+    case 'record':
+      base = `z.record(${recordKeyToZodType(descriptor)}, ${
+        descriptor.values ? fieldToZodType(descriptor.values) : 'z.unknown()'
+      })`;
+      break;
     default:
       base = 'z.unknown()';
       break;
   }
 
+  base += constraintsToZodCalls(descriptor, base);
   return nullable ? `${base}.nullable()` : base;
 }
 
+/**
+ * Renders the declarative constraints of a descriptor as Zod method calls for
+ * the string, number and array schemas that support them. Zod has no unique
+ * items check, so `uniqueItems` becomes a .refine() call.
+ */
+function constraintsToZodCalls(descriptor: FieldDescriptor, base: string): string {
+  const calls: string[] = [];
+  if (base === 'z.string()') {
+    if (descriptor.minLength !== undefined) calls.push(`.min(${descriptor.minLength})`);
+    if (descriptor.maxLength !== undefined) calls.push(`.max(${descriptor.maxLength})`);
+    if (descriptor.pattern !== undefined) {
+      calls.push(`.regex(${toRegExpExpression(descriptor.pattern)})`);
+    }
+  } else if (base === 'z.number()') {
+    if (descriptor.integer) calls.push('.int()');
+    if (descriptor.min !== undefined) calls.push(`.min(${descriptor.min})`);
+    if (descriptor.max !== undefined) calls.push(`.max(${descriptor.max})`);
+  } else if (base.startsWith('z.array(')) {
+    if (descriptor.minItems !== undefined) calls.push(`.min(${descriptor.minItems})`);
+    if (descriptor.maxItems !== undefined) calls.push(`.max(${descriptor.maxItems})`);
+    if (descriptor.uniqueItems) {
+      calls.push(
+        ".refine((items) => new Set(items).size === items.length, { message: 'Items must be unique' })"
+      );
+    }
+  }
+  return calls.join('');
+}
+
+/**
+ * Renders a regular expression source as a RegExp constructor call; unlike a
+ * regex literal, a string literal can hold any source, including line breaks.
+ */
+function toRegExpExpression(pattern: string): string {
+  return `new RegExp(${JSON.stringify(pattern)})`;
+}
+
+/**
+ * Maps the key constraint of a record field to a Zod key type: z.enum() for
+ * an enum ref, z.string().regex() for a pattern, z.string() otherwise.
+ */
+function recordKeyToZodType(descriptor: FieldDescriptor): string {
+  const { keys } = descriptor;
+  if (keys?.ref !== undefined) {
+    const enumDef = getEnumById(keys.ref);
+    if (enumDef) {
+      const values = Array.from(enumDef[ENUM_VALUES]);
+      return `z.enum([${values.map((v) => JSON.stringify(v)).join(', ')}])`;
+    }
+  }
+  if (keys?.pattern !== undefined) {
+    return `z.string().regex(${toRegExpExpression(keys.pattern)})`;
+  }
+  return 'z.string()';
+}
+
+/**
+ * Maps an object field with an inline schema to a nested z.object({...}) string.
+ * Nested optional fields are marked with .optional(); strict objects get .strict().
+ */
+function nestedObjectToZodType(descriptor: FieldDescriptor): string {
+  const base = schemaToZodObject(descriptor.properties ?? {});
+  return descriptor.strict ? `${base}.strict()` : base;
+}
+
+/**
+ * Renders a schema as a z.object({...}) string. `overrides` replaces the Zod
+ * type of individual keys (used to pin union discriminators to literals).
+ */
+function schemaToZodObject(schema: InterfaceSchema, overrides: Record<string, string> = {}): string {
+  const entries = Object.entries(schema).map(([key, property]) => {
+    const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+    if (key in overrides) {
+      return `${name}: ${overrides[key]}`;
+    }
+    const zodType = fieldToZodType(property);
+    return `${name}: ${property.optional ? `${zodType}.optional()` : zodType}`;
+  });
+  return entries.length > 0 ? `z.object({ ${entries.join(', ')} })` : 'z.object({})';
+}
+
+/** Zod object modifiers for each unknown-key mode (Zod strips by default) */
+const UNKNOWN_KEYS_MODIFIERS: Record<UnknownKeysMode, string> = {
+  passthrough: '.passthrough()',
+  strip: '',
+  strict: '.strict()',
+};
+
 /**
  * Generates a Zod schema definition from a branded interface definition.
  *
@@ -81,5 +217,37 @@ export function interfaceToZodSchema(
   return {
     interfaceId: definition.id,
     fields,
+    unknownKeys: resolveUnknownKeys(definition.unknownKeys),
+  };
+}
+
+/**
+ * Generates a Zod schema definition from an interface union definition.
+ *
+ * Each member is rendered as a z.object() whose discriminator is pinned with
+ * z.literal(), and the members are combined with z.discriminatedUnion().
+ *
+ * @param union - The union definition to convert
+ * @returns A Zod schema definition describing the union
+ */
+export function interfaceUnionToZodSchema(
+  union: BrandedInterfaceUnionDefinition
+): InterfaceUnionZodSchemaDefinition {
+  const members: Record<string, InterfaceZodSchemaDefinition> = {};
+  const objects: string[] = [];
+
+  for (const [value, member] of Object.entries(union.members)) {
+    members[value] = interfaceToZodSchema(member);
+    const object = schemaToZodObject(member.schema, {
+      [union.discriminator]: `z.literal(${JSON.stringify(value)})`,
+    });
+    objects.push(`${object}${UNKNOWN_KEYS_MODIFIERS[members[value].unknownKeys]}`);
+  }
+
+  return {
+    unionId: union.id,
+    discriminator: union.discriminator,
+    members,
+    zodType: `z.discriminatedUnion(${JSON.stringify(union.discriminator)}, [${objects.join(', ')}])`,
   };
 }
@@ -26,6 +26,7 @@ export function getRegistry(): BrandedEnumRegistry {
     global[REGISTRY_KEY] = {
       enums: new Map<string, RegistryEntry>(),
       valueIndex: new Map<string, Set<string>>(),
+      revision: 0,
     };
   }
 
@@ -54,6 +55,7 @@ export function registerEnum<T extends Record<string, string>>(
   };
 
   registry.enums.set(enumId, entry);
+  bumpRevision(registry);
 
   for (const value of values) {
     let enumIds = registry.valueIndex.get(value);
@@ -85,4 +87,15 @@ export function resetRegistry(): void {
   const registry = getRegistry();
   registry.enums.clear();
   registry.valueIndex.clear();
+  bumpRevision(registry);
+}
+
+/**
+ * Counts a change for compiled validators. Registries from older copies of the
+ * library have no revision and are left uncounted, like the copy that made them.
+ */
+function bumpRevision(registry: BrandedEnumRegistry): void {
+  if (registry.revision !== undefined) {
+    registry.revision++;
+  }
 }
@@ -45,6 +45,11 @@ export interface RegistryEntry {
 export interface BrandedEnumRegistry {
   readonly enums: Map<string, RegistryEntry>;
   readonly valueIndex: Map<string, Set<string>>;
+  /**
+   * Incremented whenever enums are added or cleared. Absent in registries
+   * created by older copies of the library, which change enums without counting.
+   */
+  revision?: number;
 }
 
 /**